@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "DeadLetterNotification" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "jobId" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "campaignId" INTEGER,
+    "payload" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "attemptsMade" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'dead',
+    "replayJobId" TEXT,
+    "replayedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeadLetterNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeadLetterNotification_userId_status_idx" ON "DeadLetterNotification"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "DeadLetterNotification" ADD CONSTRAINT "DeadLetterNotification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
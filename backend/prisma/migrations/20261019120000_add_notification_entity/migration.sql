@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "NotificationLog" ADD COLUMN     "notificationId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ScheduledNotification" ADD COLUMN     "notificationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" SERIAL NOT NULL,
+    "publicId" TEXT NOT NULL,
+    "userId" INTEGER,
+    "to" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "subject" TEXT,
+    "templateId" INTEGER,
+    "campaignId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'accepted',
+    "metadata" JSONB,
+    "attemptCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "queuedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_publicId_key" ON "Notification"("publicId");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_createdAt_idx" ON "Notification"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_campaignId_status_idx" ON "Notification"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_notificationId_idx" ON "NotificationLog"("notificationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledNotification_notificationId_key" ON "ScheduledNotification"("notificationId");
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "NotificationTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "NotificationCampaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledNotification" ADD CONSTRAINT "ScheduledNotification_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "ScheduledNotification" ADD COLUMN     "recurringNotificationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RecurringNotification" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT,
+    "to" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "subject" TEXT,
+    "templateId" INTEGER,
+    "metadata" JSONB,
+    "scheduleType" TEXT NOT NULL,
+    "expression" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringNotification_status_idx" ON "RecurringNotification"("status");
+
+-- CreateIndex
+CREATE INDEX "ScheduledNotification_recurringNotificationId_status_idx" ON "ScheduledNotification"("recurringNotificationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledNotification" ADD CONSTRAINT "ScheduledNotification_recurringNotificationId_fkey" FOREIGN KEY ("recurringNotificationId") REFERENCES "RecurringNotification"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringNotification" ADD CONSTRAINT "RecurringNotification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringNotification" ADD CONSTRAINT "RecurringNotification_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "NotificationTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
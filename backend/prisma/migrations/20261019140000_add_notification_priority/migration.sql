@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "deferredUntil" TIMESTAMP(3),
+ADD COLUMN     "priority" TEXT NOT NULL DEFAULT 'normal';
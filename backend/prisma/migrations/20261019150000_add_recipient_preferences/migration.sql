@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "category" TEXT,
+ADD COLUMN     "skipReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecipientPreference" (
+    "id" SERIAL NOT NULL,
+    "ownerId" INTEGER NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "channels" JSONB,
+    "categories" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecipientPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipientPreference_ownerId_recipient_key" ON "RecipientPreference"("ownerId", "recipient");
+
+-- AddForeignKey
+ALTER TABLE "RecipientPreference" ADD CONSTRAINT "RecipientPreference_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
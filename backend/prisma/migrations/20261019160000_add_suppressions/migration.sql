@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "Suppression" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "address" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "detail" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Suppression_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Suppression_channel_address_idx" ON "Suppression"("channel", "address");
+
+-- CreateIndex
+CREATE INDEX "Suppression_userId_idx" ON "Suppression"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Suppression" ADD CONSTRAINT "Suppression_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "trackEngagement" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "EngagementEvent" (
+    "id" SERIAL NOT NULL,
+    "notificationId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "isBot" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EngagementEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EngagementEvent_notificationId_type_idx" ON "EngagementEvent"("notificationId", "type");
+
+-- AddForeignKey
+ALTER TABLE "EngagementEvent" ADD CONSTRAINT "EngagementEvent_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "NotificationLog" ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "providerMessageId" TEXT,
+ADD COLUMN     "providerStatus" TEXT;
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_providerMessageId_idx" ON "NotificationLog"("providerMessageId");
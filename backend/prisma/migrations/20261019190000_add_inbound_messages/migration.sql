@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "InboundMessage" (
+    "id" SERIAL NOT NULL,
+    "providerMessageId" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "keyword" TEXT,
+    "notificationLogId" INTEGER,
+    "userId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InboundMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InboundMessage_providerMessageId_key" ON "InboundMessage"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "InboundMessage_from_createdAt_idx" ON "InboundMessage"("from", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InboundMessage_userId_createdAt_idx" ON "InboundMessage"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "InboundMessage" ADD CONSTRAINT "InboundMessage_notificationLogId_fkey" FOREIGN KEY ("notificationLogId") REFERENCES "NotificationLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InboundMessage" ADD CONSTRAINT "InboundMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
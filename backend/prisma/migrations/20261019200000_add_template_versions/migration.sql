@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "NotificationTemplate" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "templateVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "NotificationLog" ADD COLUMN     "templateVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ScheduledNotification" ADD COLUMN     "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TemplateVersion" (
+    "id" SERIAL NOT NULL,
+    "templateId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT,
+    "content" TEXT NOT NULL,
+    "variables" JSONB,
+    "createdById" INTEGER,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateVersion_templateId_version_key" ON "TemplateVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "TemplateVersion" ADD CONSTRAINT "TemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "NotificationTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateVersion" ADD CONSTRAINT "TemplateVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing templates start their history at version 1 with their current content
+INSERT INTO "TemplateVersion" ("templateId", "version", "subject", "content", "variables", "createdById", "createdAt")
+SELECT "id", 1, "subject", "content", "variables", "userId", "updatedAt" FROM "NotificationTemplate";
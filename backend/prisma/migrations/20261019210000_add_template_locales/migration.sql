@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "NotificationTemplate" ADD COLUMN     "locales" JSONB;
+
+-- AlterTable
+ALTER TABLE "TemplateVersion" ADD COLUMN     "locales" JSONB;
+
+-- AlterTable
+ALTER TABLE "RecipientPreference" ADD COLUMN     "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "locale" TEXT;
@@ -0,0 +1,5 @@
+-- Users created before webhook signing had no secret, so all their webhook sends failed.
+-- Same format as generateWebhookSecret(): "whsec_" and 48 random hex characters.
+UPDATE "User"
+SET "webhookSecret" = 'whsec_' || replace(gen_random_uuid()::text, '-', '') || left(replace(gen_random_uuid()::text, '-', ''), 16)
+WHERE "webhookSecret" IS NULL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RecipientPreference" ADD COLUMN     "timezone" TEXT,
+ADD COLUMN     "quietHours" JSONB;
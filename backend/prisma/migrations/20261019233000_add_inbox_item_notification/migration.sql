@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "InboxItem" ADD COLUMN     "notificationId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InboxItem_notificationId_key" ON "InboxItem"("notificationId");
+
+-- AddForeignKey
+ALTER TABLE "InboxItem" ADD CONSTRAINT "InboxItem_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "messageFormat" TEXT NOT NULL DEFAULT 'text';
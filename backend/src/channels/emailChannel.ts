@@ -0,0 +1,73 @@
+import { sendEmail, renderEmailHtml, htmlToText, verifyEmailTransport } from '../services/emailService';
+import { signRecipientToken, buildRecipientLink } from '../utils/recipientLinks';
+import { ChannelProvider } from './types';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 60 * 1000;
+
+export const emailChannel: ChannelProvider = {
+  name: 'email',
+  supportsSubject: true,
+
+  validateRecipient(to) {
+    return EMAIL_REGEX.test(to);
+  },
+
+  render({ message, subject, format }) {
+    // `message` becomes the text part. Rendered templates carry escaped values, which are
+    // decoded for it; messages sent as-is keep their text exactly.
+    return {
+      message: format === 'html' ? htmlToText(message) : message,
+      subject: subject || 'Notification',
+      html: renderEmailHtml(message),
+    };
+  },
+
+  async send({ notificationId, userId, to, message, subject, html, trackEngagement, campaignId, category }) {
+    // Campaign mail is bulk mail, which mailbox providers expect to be one-click unsubscribable
+    const unsubscribeUrl = campaignId && userId
+      ? buildRecipientLink('/api/unsubscribe', signRecipientToken({
+          ownerId: userId,
+          recipient: to,
+          purpose: 'unsubscribe',
+          ...(category && { category }),
+        }))
+      : undefined;
+
+    const info = await sendEmail(to, message, subject, html, {
+      trackingId: trackEngagement ? notificationId : undefined,
+      unsubscribeUrl,
+    });
+    return { providerMessageId: info.messageId };
+  },
+
+  classifyError(error) {
+    const code = Number(error?.responseCode);
+
+    // 421 is the SMTP "too many connections / slow down" reply
+    if (code === 421) {
+      return { kind: 'rate_limited', retryAfterMs: DEFAULT_RATE_LIMIT_DELAY_MS, code };
+    }
+    if (error?.code === 'EENVELOPE') {
+      return { kind: 'permanent', code: error.code, suppress: 'invalid_recipient' };
+    }
+    // 5xx replies (unknown mailbox, rejected recipient) won't succeed on retry. Only
+    // mailbox errors (550/551/553 or enhanced status 5.1.x) are hard bounces; others
+    // may be about the content rather than the address.
+    if (code >= 500 && code < 600) {
+      const mailboxError = [550, 551, 553].includes(code) || /\b5\.1\.\d{1,3}\b/.test(error?.response || '');
+      return { kind: 'permanent', code, ...(mailboxError && { suppress: 'hard_bounce' as const }) };
+    }
+    return { kind: 'transient', code: code || error?.code };
+  },
+
+  async checkHealth() {
+    const startTime = Date.now();
+    try {
+      await verifyEmailTransport();
+      return { status: 'healthy', responseTime: Date.now() - startTime };
+    } catch (error: any) {
+      return { status: 'down', responseTime: Date.now() - startTime, error: error.message };
+    }
+  },
+};
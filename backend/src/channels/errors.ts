@@ -0,0 +1,14 @@
+import { ErrorKind } from './types';
+
+// Thrown by channel providers when a delivery fails but the provider still has
+// details (status codes, timings) worth keeping on the notification log
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    public metadata: Record<string, any> = {},
+    public kind?: ErrorKind
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
@@ -0,0 +1,61 @@
+import { sendInApp, countInAppSubscribers } from '../services/inAppService';
+import { createInboxItem, markInboxItemsDelivered, toInboxPayload } from '../services/inboxService';
+import { DeliveryError } from './errors';
+import { ChannelProvider } from './types';
+
+export const inAppChannel: ChannelProvider = {
+  name: 'in-app',
+  supportsSubject: true,
+
+  validateRecipient(to) {
+    return to.trim().length > 0;
+  },
+
+  render({ message, subject }) {
+    return { message, subject };
+  },
+
+  async send({ notificationId, userId, to, message, subject, metadata }) {
+    // Without a user there is no inbox to fall back on, so target the socket ID directly
+    if (!userId) {
+      const socketsReached = await sendInApp(to, { message });
+      if (socketsReached === 0) {
+        throw new DeliveryError('No connected socket received the notification', { socketsReached });
+      }
+      return { metadata: { socketsReached } };
+    }
+
+    // Stored first so offline users get it from their inbox or on reconnect
+    const item = await createInboxItem({ userId, notificationId, message, subject, metadata });
+
+    // A retry after an earlier attempt already reached the user's sockets
+    if (item.deliveredAt) {
+      return { metadata: { inboxItemId: item.id, socketsReached: 0, delivered: true } };
+    }
+
+    const socketsReached = await sendInApp(`user_${userId}`, toInboxPayload(item));
+
+    if (socketsReached > 0) {
+      await markInboxItemsDelivered([item.id]);
+    }
+
+    return { metadata: { inboxItemId: item.id, socketsReached, delivered: socketsReached > 0 } };
+  },
+
+  classifyError() {
+    // Socket-ID recipients may reconnect before the next attempt
+    return { kind: 'transient' };
+  },
+
+  async checkHealth() {
+    const startTime = Date.now();
+    try {
+      const instances = await countInAppSubscribers();
+      return instances > 0
+        ? { status: 'healthy', responseTime: Date.now() - startTime }
+        : { status: 'down', responseTime: Date.now() - startTime, error: 'No API instance subscribed to in-app deliveries' };
+    } catch (error: any) {
+      return { status: 'down', responseTime: Date.now() - startTime, error: error.message };
+    }
+  },
+};
@@ -0,0 +1,15 @@
+import { registerChannel } from './registry';
+import { emailChannel } from './emailChannel';
+import { smsChannel } from './smsChannel';
+import { inAppChannel } from './inAppChannel';
+import { webhookChannel } from './webhookChannel';
+
+// Built-in channels. Adding a channel means writing a provider module and registering it here.
+registerChannel(emailChannel);
+registerChannel(smsChannel);
+registerChannel(inAppChannel);
+registerChannel(webhookChannel);
+
+export * from './registry';
+export * from './types';
+export * from './errors';
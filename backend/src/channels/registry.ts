@@ -0,0 +1,28 @@
+import { ChannelProvider } from './types';
+
+const providers = new Map<string, ChannelProvider>();
+
+export function registerChannel(provider: ChannelProvider) {
+  if (providers.has(provider.name)) {
+    throw new Error(`Channel already registered: ${provider.name}`);
+  }
+  providers.set(provider.name, provider);
+}
+
+export function getChannel(name: string): ChannelProvider | undefined {
+  return providers.get(name);
+}
+
+export function listChannels(): ChannelProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getChannelNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+// Used by route validators to check a recipient address against its channel
+export function isValidRecipient(channel: string, to: string): boolean {
+  const provider = providers.get(channel);
+  return !!provider && provider.validateRecipient(to);
+}
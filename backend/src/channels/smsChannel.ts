@@ -0,0 +1,69 @@
+import { sendSMS, getSmsClient, statusCallbackUrl } from '../services/smsService';
+import { ChannelProvider } from './types';
+
+const E164_REGEX = /^\+[1-9]\d{6,14}$/;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 60 * 1000;
+
+// Twilio error codes that mean the number itself can't receive messages
+const INVALID_NUMBER_CODES = [21211, 21214, 21614];
+const UNSUBSCRIBED_CODE = 21610;
+// Other problems with the recipient or the message itself, which retrying can't fix:
+// missing recipient, recipient unreachable from our number, unverified number on a
+// trial account, empty or overlong body
+const REJECTED_MESSAGE_CODES = [21604, 21608, 21612, 21617, 21619];
+
+export const smsChannel: ChannelProvider = {
+  name: 'sms',
+  supportsSubject: false,
+
+  validateRecipient(to) {
+    return E164_REGEX.test(to);
+  },
+
+  render({ message }) {
+    return { message };
+  },
+
+  async send({ to, message }) {
+    const result = await sendSMS(to, message);
+    return {
+      providerMessageId: result.sid,
+      providerStatus: result.status,
+      // Delivery is confirmed by the status callback, when one is set
+      awaitingReceipt: !!statusCallbackUrl(),
+    };
+  },
+
+  classifyError(error) {
+    const status = Number(error?.status);
+    const code = error?.code;
+
+    // 20429: Twilio "Too Many Requests"
+    if (status === 429 || code === 20429) {
+      return { kind: 'rate_limited', retryAfterMs: DEFAULT_RATE_LIMIT_DELAY_MS, code };
+    }
+    if (code === UNSUBSCRIBED_CODE) {
+      return { kind: 'permanent', code, suppress: 'unsubscribed' };
+    }
+    if (INVALID_NUMBER_CODES.includes(code)) {
+      return { kind: 'permanent', code, suppress: 'invalid_recipient' };
+    }
+    if (REJECTED_MESSAGE_CODES.includes(code)) {
+      return { kind: 'permanent', code };
+    }
+    // Everything else, including 401/403 from bad or rotated credentials and account
+    // configuration errors, may be fixed without touching the notification, so retry
+    return { kind: 'transient', code };
+  },
+
+  async checkHealth() {
+    const startTime = Date.now();
+    try {
+      // Just check if we can authenticate with Twilio
+      await getSmsClient().api.accounts(process.env.TWILIO_ACCOUNT_SID!).fetch();
+      return { status: 'healthy', responseTime: Date.now() - startTime };
+    } catch (error: any) {
+      return { status: 'down', responseTime: Date.now() - startTime, error: error.message };
+    }
+  },
+};
@@ -0,0 +1,64 @@
+// permanent: retrying cannot help (bad address, rejected recipient)
+// transient: retry with the normal backoff
+// rate_limited: retry after the provider's requested delay
+export type ErrorKind = 'permanent' | 'transient' | 'rate_limited';
+
+// Why a recipient address should be added to the suppression list
+export type SuppressionReason = 'hard_bounce' | 'soft_bounce' | 'complaint' | 'invalid_recipient' | 'unsubscribed' | 'manual';
+
+export interface ErrorClassification {
+  kind: ErrorKind;
+  retryAfterMs?: number;
+  code?: string | number; // Provider error code, when there is one
+  suppress?: SuppressionReason; // Set when the failure says the address itself is unusable
+}
+
+export interface HealthCheckResult {
+  status: string; // "healthy", "degraded", "down"
+  responseTime: number;
+  error?: string;
+}
+
+// "html" messages come from templates that escaped their values for an HTML email body
+export type MessageFormat = 'text' | 'html';
+
+// Content as submitted by the caller, before any channel-specific formatting
+export interface NotificationContent {
+  message: string;
+  subject?: string | null;
+  format?: MessageFormat;
+}
+
+// Content after the channel has formatted it for delivery
+export interface RenderedNotification {
+  message: string;
+  subject?: string | null;
+  html?: string;
+}
+
+export interface DeliveryRequest extends RenderedNotification {
+  notificationId?: number;
+  userId?: number | null;
+  to: string;
+  metadata?: Record<string, any> | null;
+  trackEngagement?: boolean; // Channels that can, report opens and clicks
+  campaignId?: number | null; // Campaign mail carries unsubscribe headers and a footer link
+  category?: string | null;
+}
+
+export interface DeliveryResult {
+  providerMessageId?: string;
+  providerStatus?: string;
+  awaitingReceipt?: boolean; // Accepted only; the provider reports actual delivery later
+  metadata?: Record<string, any>;
+}
+
+export interface ChannelProvider {
+  name: string;
+  supportsSubject: boolean;
+  validateRecipient(to: string): boolean;
+  render(content: NotificationContent): RenderedNotification;
+  send(request: DeliveryRequest): Promise<DeliveryResult>;
+  classifyError(error: any): ErrorClassification;
+  checkHealth(): Promise<HealthCheckResult>;
+}
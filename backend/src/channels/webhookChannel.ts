@@ -0,0 +1,91 @@
+import { PrismaClient } from '@prisma/client';
+import { sendWebhook } from '../services/webhookService';
+import { DeliveryError } from './errors';
+import { ChannelProvider } from './types';
+
+const prisma = new PrismaClient();
+
+// Receiver-side conditions that may clear up on their own
+const RETRYABLE_STATUS_CODES = [408, 425];
+const DEFAULT_RATE_LIMIT_DELAY_MS = 60 * 1000;
+
+export const webhookChannel: ChannelProvider = {
+  name: 'webhook',
+  supportsSubject: true,
+
+  validateRecipient(to) {
+    try {
+      const url = new URL(to);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  },
+
+  render({ message, subject }) {
+    return { message, subject };
+  },
+
+  async send({ userId, to, message, subject, metadata }) {
+    const user = userId
+      ? await prisma.user.findUnique({ where: { id: userId }, select: { webhookSecret: true } })
+      : null;
+
+    if (!user?.webhookSecret) {
+      throw new DeliveryError('Webhook secret not configured for user', {}, 'permanent');
+    }
+
+    const payload = {
+      event: 'notification',
+      message,
+      subject: subject ?? null,
+      metadata: metadata ?? null,
+      sentAt: new Date().toISOString(),
+    };
+
+    let result;
+    try {
+      result = await sendWebhook(to, payload, user.webhookSecret);
+    } catch (err: any) {
+      // Network errors and timeouts never produced a response
+      throw new DeliveryError(`Webhook request failed: ${err.message}`, { statusCode: null });
+    }
+
+    const responseMetadata = { statusCode: result.statusCode, latencyMs: result.latency };
+    if (!result.ok) {
+      throw new DeliveryError(`Webhook responded with status ${result.statusCode}`, {
+        ...responseMetadata,
+        ...(result.retryAfterSeconds !== undefined && { retryAfterSeconds: result.retryAfterSeconds }),
+      });
+    }
+
+    return { metadata: responseMetadata };
+  },
+
+  classifyError(error) {
+    if (error instanceof DeliveryError && error.kind) {
+      return { kind: error.kind };
+    }
+    const statusCode = error?.metadata?.statusCode;
+    if (!statusCode) {
+      return { kind: 'transient' };
+    }
+    if (statusCode === 429 || statusCode === 503) {
+      const retryAfterSeconds = error.metadata.retryAfterSeconds;
+      return {
+        kind: 'rate_limited',
+        retryAfterMs: retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : DEFAULT_RATE_LIMIT_DELAY_MS,
+        code: statusCode,
+      };
+    }
+    if (statusCode >= 500 || RETRYABLE_STATUS_CODES.includes(statusCode)) {
+      return { kind: 'transient', code: statusCode };
+    }
+    return { kind: 'permanent', code: statusCode };
+  },
+
+  async checkHealth() {
+    // Endpoints are per-recipient, so there is no single upstream to probe
+    return { status: 'healthy', responseTime: 0 };
+  },
+};
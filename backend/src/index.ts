@@ -1,6 +1,6 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import cors from 'cors';
 import cron from 'node-cron';
@@ -14,17 +14,29 @@ import authRouter from './routes/auth';
 import analyticsRouter from './routes/analytics';
 import templatesRouter from './routes/templates';
 import campaignsRouter from './routes/campaigns';
+import inboxRouter from './routes/inbox';
+import deadLettersRouter from './routes/deadLetters';
+import recurringRouter from './routes/recurring';
+import preferencesRouter from './routes/preferences';
+import suppressionsRouter from './routes/suppressions';
+import trackingRouter from './routes/tracking';
+import unsubscribeRouter from './routes/unsubscribe';
+import twilioWebhooksRouter from './routes/twilioWebhooks';
+import inboundRouter from './routes/inbound';
 import swaggerRouter from './swagger';
 
 // Import middleware
 import { generalLimiter } from './middleware/rateLimiter';
 import { securityHeaders, trackApiUsage, validateContentType } from './middleware/security';
 import { optionalAuth } from './middleware/auth';
+import { authenticateSocket, resolveSocketUser, SocketAuthData } from './middleware/socketAuth';
 
 // Import services
 import { startScheduler } from './scheduler/scheduler';
+import { leaderOnly, stopLeaderElection } from './scheduler/leaderElection';
 import { sendInApp, setSocketServer } from './services/inAppService';
 import { HealthService } from './services/healthService';
+import { getUndeliveredInboxItems, markInboxItemsDelivered, toInboxPayload } from './services/inboxService';
 
 dotenv.config();
 
@@ -36,6 +48,13 @@ const app = express();
 
 // Security middleware
 app.use(securityHeaders);
+
+// Open/click tracking, one-click unsubscribe and provider webhooks are hit by mail
+// clients, image proxies and providers rather than API clients, so they sit in front
+// of the per-IP rate limit, usage tracking and the JSON-only content type check
+app.use('/api/track', trackingRouter);
+app.use('/api/unsubscribe', unsubscribeRouter);
+app.use('/api/webhooks/twilio', twilioWebhooksRouter);
 app.use(generalLimiter);
 
 // CORS configuration
@@ -48,7 +67,8 @@ app.use(cors({
   ],
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
   credentials: true,
-  allowedHeaders: ["Content-Type", "Authorization", "x-api-key"]
+  allowedHeaders: ["Content-Type", "Authorization", "x-api-key", "Idempotency-Key"],
+  exposedHeaders: ["Idempotent-Replayed"]
 }));
 
 // Body parsing middleware
@@ -77,24 +97,80 @@ const io = new Server(httpServer, {
 });
 
 // Socket.IO setup with authentication
+io.use(authenticateSocket);
+
+// Joins the verified user's room and disconnects the socket once its JWT expires
+function attachSocketUser(socket: Socket, authData: SocketAuthData) {
+  const user = authData.user!;
+  socket.data.user = user;
+  socket.join(`user_${user.id}`);
+
+  clearTimeout(socket.data.expiryTimer);
+  if (authData.tokenExpiresAt) {
+    const msUntilExpiry = authData.tokenExpiresAt.getTime() - Date.now();
+    socket.data.expiryTimer = setTimeout(() => {
+      socket.emit('token_expired');
+      socket.disconnect(true);
+    }, Math.max(msUntilExpiry, 0));
+  }
+
+  socket.emit('authenticated', { userId: user.id });
+  console.log(`User ${user.id} authenticated on socket ${socket.id}`);
+
+  replayMissedNotifications(socket, user.id);
+}
+
+// Delivers inbox items that arrived while the user had no connected socket
+async function replayMissedNotifications(socket: Socket, userId: number) {
+  try {
+    const missed = await getUndeliveredInboxItems(userId);
+    if (missed.length === 0) return;
+
+    for (const item of missed) {
+      socket.emit('notification', toInboxPayload(item, true));
+    }
+    await markInboxItemsDelivered(missed.map(item => item.id));
+    console.log(`📥 Replayed ${missed.length} missed notifications to user ${userId}`);
+  } catch (error) {
+    console.error(`Failed to replay missed notifications for user ${userId}:`, error);
+  }
+}
+
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
 
-  // Join a room using socket ID (or user ID later)
+  // Join a room using socket ID
   socket.join(socket.id);
 
   // Emit initial connected message
   socket.emit('connected', { id: socket.id });
 
-  // Handle user authentication for socket
-  socket.on('authenticate', (data) => {
-    if (data.userId) {
-      socket.join(`user_${data.userId}`);
-      console.log(`User ${data.userId} authenticated on socket ${socket.id}`);
+  if (socket.data.user) {
+    attachSocketUser(socket, socket.data);
+  }
+
+  // Late authentication for clients that connect before they have credentials.
+  // A bare userId is no longer trusted: a token or API key must be supplied.
+  socket.on('authenticate', async (data) => {
+    try {
+      const authData = await resolveSocketUser({ token: data?.token, apiKey: data?.apiKey });
+
+      if (!authData) {
+        socket.emit('auth_error', { error: 'Valid token or API key required' });
+        return;
+      }
+
+      if (socket.data.user && socket.data.user.id !== authData.user!.id) {
+        socket.leave(`user_${socket.data.user.id}`);
+      }
+      attachSocketUser(socket, authData);
+    } catch (error) {
+      socket.emit('auth_error', { error: 'Invalid token' });
     }
   });
 
   socket.on('disconnect', () => {
+    clearTimeout(socket.data.expiryTimer);
     console.log('User disconnected:', socket.id);
   });
 });
@@ -112,6 +188,14 @@ app.get('/', (req, res) => {
       'User authentication & authorization',
       'Template management',
       'Campaign management',
+      'Recurring notifications (cron & RRULE)',
+      'Recipient preference center',
+      'Suppression list with bounce ingestion',
+      'Email open & click tracking',
+      'One-click unsubscribe (RFC 8058)',
+      'SMS delivery receipts',
+      'Inbound SMS with STOP/START/HELP handling',
+      'Persistent in-app inbox',
       'Real-time analytics',
       'Rate limiting & security',
       'Health monitoring',
@@ -122,6 +206,13 @@ app.get('/', (req, res) => {
       notifications: '/api/notify',
       templates: '/api/templates',
       campaigns: '/api/campaigns',
+      inbox: '/api/inbox',
+      deadLetters: '/api/dead-letters',
+      recurring: '/api/recurring',
+      preferences: '/api/preferences',
+      suppressions: '/api/suppressions',
+      unsubscribe: '/api/unsubscribe',
+      inbound: '/api/inbound',
       analytics: '/api/analytics',
       logs: '/api/logs',
       docs: '/api/docs'
@@ -134,6 +225,12 @@ app.use('/api/auth', authRouter);
 app.use('/api/notify', notifyRouter);
 app.use('/api/templates', templatesRouter);
 app.use('/api/campaigns', campaignsRouter);
+app.use('/api/inbox', inboxRouter);
+app.use('/api/dead-letters', deadLettersRouter);
+app.use('/api/recurring', recurringRouter);
+app.use('/api/preferences', preferencesRouter);
+app.use('/api/suppressions', suppressionsRouter);
+app.use('/api/inbound', inboundRouter);
 app.use('/api/analytics', analyticsRouter);
 app.use('/api/logs', logsRouter);
 app.use('/api/docs', swaggerRouter);
@@ -221,33 +318,35 @@ startScheduler();
 const healthService = HealthService.getInstance();
 
 // Health check every 5 minutes
-cron.schedule('*/5 * * * *', async () => {
+cron.schedule('*/5 * * * *', leaderOnly(async () => {
   try {
     await healthService.performHealthCheck();
   } catch (error) {
     console.error('Health check failed:', error);
   }
-});
+}));
 
 // Cleanup old health records daily at midnight
-cron.schedule('0 0 * * *', async () => {
+cron.schedule('0 0 * * *', leaderOnly(async () => {
   try {
     await healthService.cleanupOldHealthRecords();
     console.log('Old health records cleaned up');
   } catch (error) {
     console.error('Health records cleanup failed:', error);
   }
-});
+}));
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  await stopLeaderElection();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  await stopLeaderElection();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -13,6 +13,41 @@ export interface AuthRequest extends Request {
   };
 }
 
+export type AuthenticatedUser = NonNullable<AuthRequest['user']>;
+
+const userSelect = { id: true, email: true, role: true, name: true, isActive: true };
+
+// Shared by the HTTP middleware below and Socket.IO handshake authentication.
+// Throws if the token is malformed or expired; resolves null for unknown/inactive users.
+export async function verifyAccessToken(token: string): Promise<{ user: AuthenticatedUser | null; expiresAt?: Date }> {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+  // Access tokens carry no audience; other tokens signed with the same secret (such as
+  // recipient links) do, and must never authenticate a user
+  if (decoded.aud !== undefined || typeof decoded.userId !== 'number') {
+    throw new jwt.JsonWebTokenError('not an access token');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    select: userSelect
+  });
+
+  return {
+    user: user && user.isActive ? user : null,
+    expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : undefined,
+  };
+}
+
+export async function verifyApiKey(apiKey: string): Promise<AuthenticatedUser | null> {
+  const user = await prisma.user.findUnique({
+    where: { apiKey },
+    select: userSelect
+  });
+
+  return user && user.isActive ? user : null;
+}
+
 export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -22,13 +57,9 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, role: true, name: true, isActive: true }
-    });
+    const { user } = await verifyAccessToken(token);
 
-    if (!user || !user.isActive) {
+    if (!user) {
       return res.status(401).json({ error: 'Invalid or inactive user' });
     }
 
@@ -47,12 +78,9 @@ export const authenticateApiKey = async (req: AuthRequest, res: Response, next:
   }
 
   try {
-    const user = await prisma.user.findUnique({
-      where: { apiKey },
-      select: { id: true, email: true, role: true, name: true, isActive: true }
-    });
+    const user = await verifyApiKey(apiKey);
 
-    if (!user || !user.isActive) {
+    if (!user) {
       return res.status(401).json({ error: 'Invalid API key' });
     }
 
@@ -63,6 +91,20 @@ export const authenticateApiKey = async (req: AuthRequest, res: Response, next:
   }
 };
 
+// Middleware to authenticate either via JWT or API key
+export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const apiKey = req.headers['x-api-key'];
+
+  if (authHeader) {
+    return authenticateToken(req, res, next);
+  } else if (apiKey) {
+    return authenticateApiKey(req, res, next);
+  } else {
+    return res.status(401).json({ error: 'Authentication required. Provide either Authorization header or x-api-key header.' });
+  }
+};
+
 export const requireRole = (roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -84,13 +126,9 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
 
   if (token) {
     try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: { id: true, email: true, role: true, name: true, isActive: true }
-      });
+      const { user } = await verifyAccessToken(token);
 
-      if (user && user.isActive) {
+      if (user) {
         req.user = user;
       }
     } catch (error) {
@@ -98,12 +136,9 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
     }
   } else if (apiKey) {
     try {
-      const user = await prisma.user.findUnique({
-        where: { apiKey },
-        select: { id: true, email: true, role: true, name: true, isActive: true }
-      });
+      const user = await verifyApiKey(apiKey);
 
-      if (user && user.isActive) {
+      if (user) {
         req.user = user;
       }
     } catch (error) {
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { redisConnection } from '../utils/redis';
+import { AuthRequest } from './auth';
+
+const IDEMPOTENCY_TTL_SECONDS = Number(process.env.IDEMPOTENCY_TTL_SECONDS) || 24 * 60 * 60;
+// A request that never stores its response (the process died, or the handler didn't
+// answer through res.json) only blocks its key this long
+const PROCESSING_TTL_SECONDS = Number(process.env.IDEMPOTENCY_PROCESSING_TTL_SECONDS) || 5 * 60;
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: 'processing' | 'completed';
+  statusCode?: number;
+  body?: any;
+}
+
+// Serialises with sorted keys so logically equal bodies hash the same
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fingerprintRequest(req: AuthRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+// Honours the Idempotency-Key header on submission endpoints. Must run after authentication:
+// keys are scoped per user. A repeat with the same body returns the stored response,
+// a repeat with a different body is rejected with 409.
+export const idempotency = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key');
+
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+  }
+
+  const redisKey = `idempotency:${req.user!.id}:${key}`;
+  const fingerprint = fingerprintRequest(req);
+
+  try {
+    const record: IdempotencyRecord = { fingerprint, state: 'processing' };
+    const acquired = await redisConnection.set(redisKey, JSON.stringify(record), 'EX', PROCESSING_TTL_SECONDS, 'NX');
+
+    if (!acquired) {
+      const existingRaw = await redisConnection.get(redisKey);
+      const existing: IdempotencyRecord | null = existingRaw ? JSON.parse(existingRaw) : null;
+
+      if (!existing) {
+        // Expired between SET and GET; rare enough to let the client simply retry
+        return res.status(409).json({ error: 'Idempotency-Key state changed, please retry' });
+      }
+
+      if (existing.fingerprint !== fingerprint) {
+        return res.status(409).json({ error: 'Idempotency-Key already used with a different request' });
+      }
+
+      if (existing.state === 'processing') {
+        return res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.statusCode!).json(existing.body);
+    }
+  } catch (error) {
+    console.error('Idempotency check error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  // Capture the response so a repeat can be answered without re-running the handler
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    const statusCode = res.statusCode;
+    const store = statusCode >= 500
+      // Server errors are not final; let the client retry with the same key
+      ? redisConnection.del(redisKey)
+      : redisConnection.set(
+          redisKey,
+          JSON.stringify({ fingerprint, state: 'completed', statusCode, body } as IdempotencyRecord),
+          'EX',
+          IDEMPOTENCY_TTL_SECONDS
+        );
+    store.catch((error) => console.error('Failed to store idempotent response:', error));
+    return originalJson(body);
+  };
+
+  next();
+};
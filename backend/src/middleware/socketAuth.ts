@@ -0,0 +1,60 @@
+import { Socket } from 'socket.io';
+import { verifyAccessToken, verifyApiKey, AuthenticatedUser } from './auth';
+
+export interface SocketAuthData {
+  user?: AuthenticatedUser;
+  tokenExpiresAt?: Date;
+}
+
+interface SocketCredentials {
+  token?: string;
+  apiKey?: string;
+}
+
+// Credentials can be passed as `io(url, { auth: { token } })` or as the usual HTTP headers
+function getHandshakeCredentials(socket: Socket): SocketCredentials {
+  const { auth, headers } = socket.handshake;
+  const authHeader = headers['authorization'];
+
+  return {
+    token: auth?.token || (authHeader && authHeader.split(' ')[1]) || undefined,
+    apiKey: auth?.apiKey || (headers['x-api-key'] as string) || undefined,
+  };
+}
+
+export async function resolveSocketUser(credentials: SocketCredentials): Promise<SocketAuthData | null> {
+  if (credentials.token) {
+    const { user, expiresAt } = await verifyAccessToken(credentials.token);
+    return user ? { user, tokenExpiresAt: expiresAt } : null;
+  }
+
+  if (credentials.apiKey) {
+    const user = await verifyApiKey(credentials.apiKey);
+    return user ? { user } : null;
+  }
+
+  return null;
+}
+
+// Sockets without credentials may still connect (e.g. for socket-id targeted messages),
+// but sockets presenting invalid credentials are rejected outright
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+  const credentials = getHandshakeCredentials(socket);
+
+  if (!credentials.token && !credentials.apiKey) {
+    return next();
+  }
+
+  try {
+    const authData = await resolveSocketUser(credentials);
+
+    if (!authData) {
+      return next(new Error('Invalid or inactive user'));
+    }
+
+    Object.assign(socket.data, authData);
+    next();
+  } catch (error) {
+    next(new Error('Invalid token'));
+  }
+};
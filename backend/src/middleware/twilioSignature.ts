@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+import { publicApiUrl } from '../utils/recipientLinks';
+
+// Rejects webhook requests not signed by Twilio with our auth token. Twilio signs the
+// full URL it posted to, so PUBLIC_API_URL must match the URL configured there.
+export const verifyTwilioSignature = (req: Request, res: Response, next: NextFunction) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const signature = req.get('X-Twilio-Signature');
+  const url = `${publicApiUrl()}${req.originalUrl}`;
+
+  if (!authToken || !signature || !twilio.validateRequest(authToken, signature, url, req.body || {})) {
+    return res.status(403).json({ error: 'Invalid Twilio signature' });
+  }
+  next();
+};
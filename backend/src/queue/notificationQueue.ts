@@ -1,7 +1,16 @@
-import { Queue } from 'bullmq';
+import { Queue, JobsOptions } from 'bullmq';
 import { redisConnection } from "../utils/redis";
 
 
 export const notificationQueue = new Queue('notifications', {
   connection: redisConnection,
 });
+
+// Retry policy applied to every notification job
+export const notificationJobOptions: JobsOptions = {
+  attempts: 3,
+  backoff: {
+    type: "exponential",
+    delay: 10000,
+  },
+};
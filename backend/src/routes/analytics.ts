@@ -1,6 +1,8 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { getLeaderInfo } from '../scheduler/leaderElection';
+import { getEmailEngagement } from '../services/trackingService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -19,8 +21,8 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - 30);
 
-    // Total notifications sent
-    const totalNotifications = await prisma.notificationLog.count({
+    // Total notifications submitted (one per message, regardless of retries)
+    const totalNotifications = await prisma.notification.count({
       where: {
         ...userFilter,
         createdAt: {
@@ -31,10 +33,10 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
     });
 
     // Success rate
-    const successfulNotifications = await prisma.notificationLog.count({
+    const successfulNotifications = await prisma.notification.count({
       where: {
         ...userFilter,
-        status: 'success',
+        status: 'delivered',
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -44,8 +46,46 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
 
     const successRate = totalNotifications > 0 ? (successfulNotifications / totalNotifications) * 100 : 0;
 
+    // In-app read rate (share of delivered in-app notifications opened from the inbox)
+    const [inAppDelivered, inAppRead] = await Promise.all([
+      prisma.notificationLog.count({
+        where: {
+          ...userFilter,
+          channel: 'in-app',
+          status: 'success',
+          createdAt: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+      }),
+      prisma.notificationLog.count({
+        where: {
+          ...userFilter,
+          channel: 'in-app',
+          status: 'success',
+          readAt: { not: null },
+          createdAt: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+      }),
+    ]);
+
+    const readRate = inAppDelivered > 0 ? (inAppRead / inAppDelivered) * 100 : 0;
+
+    // Email opens and clicks (tracked emails only, bots excluded)
+    const emailEngagement = await getEmailEngagement({
+      ...userFilter,
+      createdAt: {
+        gte: startDate,
+        lte: endDate,
+      },
+    });
+
     // Notifications by channel
-    const notificationsByChannel = await prisma.notificationLog.groupBy({
+    const notificationsByChannel = await prisma.notification.groupBy({
       by: ['channel'],
       where: {
         ...userFilter,
@@ -60,7 +100,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
     });
 
     // Notifications by status
-    const notificationsByStatus = await prisma.notificationLog.groupBy({
+    const notificationsByStatus = await prisma.notification.groupBy({
       by: ['status'],
       where: {
         ...userFilter,
@@ -87,7 +127,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
         const endOfDay = new Date(date);
         endOfDay.setHours(23, 59, 59, 999);
 
-        const count = await prisma.notificationLog.count({
+        const count = await prisma.notification.count({
           where: {
             ...userFilter,
             createdAt: {
@@ -102,7 +142,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
     );
 
     // Recent failed notifications
-    const recentFailures = await prisma.notificationLog.findMany({
+    const failedNotifications = await prisma.notification.findMany({
       where: {
         ...userFilter,
         status: 'failed',
@@ -111,17 +151,27 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
           lte: endDate,
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { failedAt: 'desc' },
       take: 10,
       select: {
-        id: true,
+        publicId: true,
         to: true,
         channel: true,
-        error: true,
+        lastError: true,
+        attemptCount: true,
         createdAt: true,
       },
     });
 
+    const recentFailures = failedNotifications.map(notification => ({
+      id: notification.publicId,
+      to: notification.to,
+      channel: notification.channel,
+      error: notification.lastError,
+      attempts: notification.attemptCount,
+      createdAt: notification.createdAt,
+    }));
+
     // Scheduled notifications count
     const scheduledCount = await prisma.scheduledNotification.count({
       where: {
@@ -142,6 +192,9 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
       summary: {
         totalNotifications,
         successRate: Math.round(successRate * 100) / 100,
+        readRate: Math.round(readRate * 100) / 100,
+        openRate: emailEngagement.openRate,
+        clickRate: emailEngagement.clickRate,
         scheduledCount,
         templatesCount,
       },
@@ -156,6 +209,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthRequest, res: expres
         })),
         dailyNotifications,
       },
+      emailEngagement,
       recentFailures,
     });
   } catch (error) {
@@ -279,6 +333,20 @@ router.get('/health',
   }
 );
 
+// Get the instance currently running the scheduler and health crons (admin only)
+router.get('/leader',
+  authenticateToken,
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    try {
+      res.json(await getLeaderInfo());
+    } catch (error) {
+      console.error('Leader info error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 // Get API usage statistics (admin only)
 router.get('/api-usage',
   authenticateToken,
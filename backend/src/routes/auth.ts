@@ -6,6 +6,8 @@ import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { authLimiter } from '../middleware/rateLimiter';
+import { generateWebhookSecret } from '../services/webhookService';
+import { validatePreferences, parsePreferences } from '../services/preferenceService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -48,6 +50,7 @@ router.post('/register',
           password: hashedPassword,
           name,
           apiKey: uuidv4(),
+          webhookSecret: generateWebhookSecret(),
         },
         select: {
           id: true,
@@ -148,6 +151,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: express.Respo
         name: true,
         role: true,
         apiKey: true,
+        webhookSecret: true,
         preferences: true,
         emailVerified: true,
         createdAt: true,
@@ -167,7 +171,15 @@ router.put('/profile',
   authenticateToken,
   [
     body('name').optional().isLength({ min: 2 }).trim(),
-    body('preferences').optional().isObject(),
+    body('preferences')
+      .optional()
+      .custom((preferences) => {
+        const problems = validatePreferences(preferences);
+        if (problems.length > 0) {
+          throw new Error(problems.join('; '));
+        }
+        return true;
+      }),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -183,7 +195,7 @@ router.put('/profile',
         where: { id: req.user!.id },
         data: {
           ...(name && { name }),
-          ...(preferences && { preferences }),
+          ...(preferences && { preferences: parsePreferences(preferences) as Record<string, any> }),
         },
         select: {
           id: true,
@@ -277,4 +289,23 @@ router.post('/regenerate-api-key', authenticateToken, async (req: AuthRequest, r
   }
 });
 
+// Regenerate webhook signing secret
+router.post('/regenerate-webhook-secret', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const updatedUser = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { webhookSecret: generateWebhookSecret() },
+      select: { webhookSecret: true }
+    });
+
+    res.json({
+      message: 'Webhook secret regenerated successfully',
+      webhookSecret: updatedUser.webhookSecret
+    });
+  } catch (error) {
+    console.error('Webhook secret regeneration error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,13 @@ import express from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getChannelNames, isValidRecipient } from '../channels';
+import { submitNotification } from '../services/notificationService';
+import { getCampaignOutcomes } from '../services/campaignService';
+import { getEmailEngagement } from '../services/trackingService';
+import { renderTemplateContent, validateTemplateVariables } from '../services/templateService';
+import { findRecipientLocale } from '../services/preferenceService';
+import { TemplateSyntaxError } from '../services/templateEngine';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -79,11 +86,15 @@ router.post('/',
   authenticateToken,
   [
     body('name').isLength({ min: 1 }).trim(),
-    body('channel').isIn(['email', 'sms', 'in-app']),
+    body('channel').isIn(getChannelNames()),
     body('recipients').isArray({ min: 1 }),
+    body('recipients.*')
+      .custom((to, { req }) => typeof to === 'string' && isValidRecipient(req.body.channel, to))
+      .withMessage('Invalid recipient for channel'),
     body('templateId').optional().isInt(),
     body('description').optional().isString(),
     body('scheduledAt').optional().isISO8601(),
+    body('variables').optional().isObject(),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -92,7 +103,7 @@ router.post('/',
       return;
     }
 
-    const { name, channel, recipients, templateId, description, scheduledAt } = req.body;
+    const { name, channel, recipients, templateId, description, scheduledAt, variables } = req.body;
     const userId = req.user!.id;
 
     try {
@@ -131,6 +142,8 @@ router.post('/',
           recipients,
           templateId,
           description,
+          // Template variables shared by every recipient
+          ...(variables && { metadata: { variables } }),
           totalRecipients: recipients.length,
           scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
           status: scheduledAt ? 'scheduled' : 'draft',
@@ -157,8 +170,10 @@ router.put('/:id',
   [
     body('name').optional().isLength({ min: 1 }).trim(),
     body('recipients').optional().isArray({ min: 1 }),
+    body('recipients.*').optional().isString(),
     body('description').optional().isString(),
     body('scheduledAt').optional().isISO8601(),
+    body('variables').optional().isObject(),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -169,7 +184,7 @@ router.put('/:id',
 
     const campaignId = parseInt(req.params.id);
     const userId = req.user!.id;
-    const { name, recipients, description, scheduledAt } = req.body;
+    const { name, recipients, description, scheduledAt, variables } = req.body;
 
     try {
       // Check if campaign exists and belongs to user
@@ -188,6 +203,14 @@ router.put('/:id',
         return;
       }
 
+      // Recipients are checked against the channel the campaign was created for
+      const invalidRecipients = (recipients as string[] | undefined)
+        ?.filter((to) => !isValidRecipient(existingCampaign.channel, to));
+      if (invalidRecipients?.length) {
+        res.status(400).json({ error: 'Invalid recipient for channel', recipients: invalidRecipients });
+        return;
+      }
+
       // Check if new name conflicts with existing campaign
       if (name && name !== existingCampaign.name) {
         const nameConflict = await prisma.notificationCampaign.findFirst({
@@ -209,6 +232,9 @@ router.put('/:id',
             totalRecipients: recipients.length 
           }),
           ...(description !== undefined && { description }),
+          ...(variables && {
+            metadata: { ...(existingCampaign.metadata as Record<string, any> | null), variables },
+          }),
           ...(scheduledAt !== undefined && { 
             scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
             status: scheduledAt ? 'scheduled' : 'draft',
@@ -256,6 +282,35 @@ router.post('/:id/start', authenticateToken, async (req: AuthRequest, res: expre
       return;
     }
 
+    // Every recipient gets the campaign's variables plus their own address as `recipient`
+    const variables = ((campaign.metadata as Record<string, any> | null)?.variables || {}) as Record<string, any>;
+    const recipients = campaign.recipients as string[];
+
+    // Check every recipient's values against the template's declared variables before anything is queued
+    const valuesByRecipient = new Map<string, Record<string, any>>();
+    for (const recipient of recipients) {
+      const { values, problems } = validateTemplateVariables(campaign.template!.variables, { ...variables, recipient });
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Invalid template variables', recipient, problems });
+        return;
+      }
+      valuesByRecipient.set(recipient, values);
+    }
+
+    const renderFor = (recipient: string, locale?: string | null) =>
+      renderTemplateContent(campaign.template!, valuesByRecipient.get(recipient) ?? { ...variables, recipient }, { locale });
+
+    // Templates saved before syntax checking existed may not compile; fail before anything is queued
+    try {
+      renderFor('');
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        res.status(400).json({ error: 'Template has syntax errors', problems: [{ message: error.message, line: error.line }] });
+        return;
+      }
+      throw error;
+    }
+
     // Update campaign status
     await prisma.notificationCampaign.update({
       where: { id: campaignId },
@@ -265,31 +320,24 @@ router.post('/:id/start', authenticateToken, async (req: AuthRequest, res: expre
       },
     });
 
-    // Import notification queue
-    const { notificationQueue } = await import('../queue/notificationQueue');
-
     // Queue notifications for all recipients
-    const recipients = campaign.recipients as string[];
     for (const recipient of recipients) {
-      await notificationQueue.add(
-        'send',
-        {
-          userId,
-          to: recipient,
-          channel: campaign.channel,
-          message: campaign.template!.content,
-          subject: campaign.template!.subject,
-          templateId: campaign.templateId,
-          campaignId: campaign.id,
-        },
-        {
-          attempts: 3,
-          backoff: {
-            type: 'exponential',
-            delay: 10000,
-          },
-        }
-      );
+      // Each recipient gets the template in their preferred language, when it has that variant
+      const rendered = renderFor(recipient, await findRecipientLocale(userId, campaign.channel, recipient));
+      await submitNotification({
+        userId,
+        to: recipient,
+        channel: campaign.channel,
+        message: rendered.message,
+        messageFormat: rendered.format,
+        subject: rendered.subject,
+        templateId: campaign.templateId,
+        templateVersion: campaign.template!.version,
+        locale: rendered.locale,
+        campaignId: campaign.id,
+        // Campaign analytics report opens and clicks
+        trackEngagement: true,
+      });
     }
 
     res.json({
@@ -349,33 +397,46 @@ router.get('/:id/analytics', authenticateToken, async (req: AuthRequest, res: ex
       return;
     }
 
-    // Get notification logs for this campaign
-    const logs = await prisma.notificationLog.findMany({
-      where: { campaignId },
-    });
+    // Outcomes are counted per recipient; attempts are reported separately
+    const [outcomes, engagement, totalAttempts, failedNotifications] = await Promise.all([
+      getCampaignOutcomes(campaignId),
+      getEmailEngagement({ campaignId }),
+      prisma.notificationLog.count({ where: { campaignId } }),
+      prisma.notification.findMany({
+        where: { campaignId, status: { in: ['failed', 'expired'] } },
+        orderBy: { updatedAt: 'desc' },
+        take: 10,
+        select: { to: true, status: true, lastError: true, attemptCount: true, updatedAt: true },
+      }),
+    ]);
+
+    const finished = outcomes.delivered + outcomes.failed;
 
     const analytics = {
-      totalSent: logs.length,
-      successful: logs.filter(log => log.status === 'success').length,
-      failed: logs.filter(log => log.status === 'failed').length,
-      pending: logs.filter(log => log.status === 'pending').length,
-      successRate: logs.length > 0 ? (logs.filter(log => log.status === 'success').length / logs.length) * 100 : 0,
+      totalRecipients: campaign.totalRecipients,
+      successful: outcomes.delivered,
+      failed: outcomes.failed,
+      cancelled: outcomes.cancelled,
+      skipped: outcomes.skipped,
+      awaitingReceipt: outcomes.sent,
+      pending: outcomes.inFlight,
+      successRate: finished > 0 ? (outcomes.delivered / finished) * 100 : 0,
+      totalAttempts,
+
+      // Email opens and clicks, per recipient (bots excluded)
+      engagement,
       
-      // Status breakdown
-      statusBreakdown: logs.reduce((acc, log) => {
-        acc[log.status] = (acc[log.status] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
+      // Status breakdown (one entry per recipient)
+      statusBreakdown: outcomes.statusBreakdown,
 
       // Recent failures
-      recentFailures: logs
-        .filter(log => log.status === 'failed')
-        .slice(0, 10)
-        .map(log => ({
-          to: log.to,
-          error: log.error,
-          createdAt: log.createdAt,
-        })),
+      recentFailures: failedNotifications.map(notification => ({
+        to: notification.to,
+        status: notification.status,
+        error: notification.lastError,
+        attempts: notification.attemptCount,
+        failedAt: notification.updatedAt,
+      })),
     };
 
     res.json(analytics);
@@ -0,0 +1,213 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { replayDeadLetter } from '../services/deadLetterService';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const MAX_BULK_REPLAY = 500;
+
+// Admins can see every user's dead letters, everyone else only their own
+function ownerFilter(req: AuthRequest) {
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+  return isAdmin ? {} : { userId: req.user!.id };
+}
+
+function buildFilters(req: AuthRequest, source: Record<string, any>) {
+  const filters: any = { ...ownerFilter(req), status: source.status || 'dead' };
+
+  if (source.channel) filters.channel = source.channel;
+  if (source.campaignId) filters.campaignId = parseInt(source.campaignId);
+  if (source.startDate && source.endDate) {
+    filters.createdAt = {
+      gte: new Date(source.startDate),
+      lte: new Date(source.endDate),
+    };
+  }
+
+  return filters;
+}
+
+// List dead-lettered notifications
+router.get('/', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const filters = buildFilters(req, req.query);
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      prisma.deadLetterNotification.findMany({
+        where: filters,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+        select: {
+          id: true,
+          jobId: true,
+          to: true,
+          channel: true,
+          campaignId: true,
+          error: true,
+          attemptsMade: true,
+          status: true,
+          replayedAt: true,
+          createdAt: true,
+        },
+      }),
+      prisma.deadLetterNotification.count({ where: filters }),
+    ]);
+
+    res.json({
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Dead letters fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replay dead letters matching a filter
+router.post('/replay',
+  authenticate,
+  [
+    body('ids').optional().isArray({ min: 1, max: MAX_BULK_REPLAY }),
+    body('ids.*').optional().isInt(),
+    body('channel').optional().isString(),
+    body('campaignId').optional().isInt(),
+    body('startDate').optional().isISO8601(),
+    body('endDate').optional().isISO8601(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const filters = buildFilters(req, { ...req.body, status: 'dead' });
+      if (req.body.ids) filters.id = { in: req.body.ids };
+
+      const entries = await prisma.deadLetterNotification.findMany({
+        where: filters,
+        orderBy: { createdAt: 'asc' },
+        take: MAX_BULK_REPLAY,
+      });
+
+      const replayed: number[] = [];
+      const failed: { id: number; error: string }[] = [];
+      for (const entry of entries) {
+        try {
+          // Entries another replay claimed meanwhile are left to it
+          if (await replayDeadLetter(entry)) {
+            replayed.push(entry.id);
+          }
+        } catch (error: any) {
+          failed.push({ id: entry.id, error: error.message });
+        }
+      }
+
+      res.status(202).json({
+        message: 'Dead letters replayed',
+        replayed: replayed.length,
+        failed,
+      });
+    } catch (error) {
+      console.error('Dead letters bulk replay error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Get single dead letter with its attempt history
+router.get('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const entry = await prisma.deadLetterNotification.findFirst({
+      where: { id: parseInt(req.params.id), ...ownerFilter(req) },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Dead letter not found' });
+      return;
+    }
+
+    res.json(entry);
+  } catch (error) {
+    console.error('Dead letter fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replay a single dead letter
+router.post('/:id/replay', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const entry = await prisma.deadLetterNotification.findFirst({
+      where: { id: parseInt(req.params.id), ...ownerFilter(req) },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Dead letter not found' });
+      return;
+    }
+
+    if (entry.status !== 'dead') {
+      res.status(400).json({ error: `Dead letter already ${entry.status}` });
+      return;
+    }
+
+    const updated = await replayDeadLetter(entry);
+    if (!updated) {
+      res.status(400).json({ error: 'Dead letter already replayed' });
+      return;
+    }
+
+    res.status(202).json({
+      message: 'Dead letter replayed',
+      jobId: updated.replayJobId,
+    });
+  } catch (error) {
+    console.error('Dead letter replay error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Discard a dead letter
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const entry = await prisma.deadLetterNotification.findFirst({
+      where: { id: parseInt(req.params.id), ...ownerFilter(req) },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Dead letter not found' });
+      return;
+    }
+
+    if (entry.status !== 'dead') {
+      res.status(400).json({ error: `Dead letter already ${entry.status}` });
+      return;
+    }
+
+    await prisma.deadLetterNotification.update({
+      where: { id: entry.id },
+      data: { status: 'discarded' },
+    });
+
+    res.json({ message: 'Dead letter discarded' });
+  } catch (error) {
+    console.error('Dead letter discard error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,72 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+function isAdmin(req: AuthRequest) {
+  return req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+}
+
+// List SMS received from recipients, with the notification each one replied to
+router.get('/',
+  authenticate,
+  [
+    query('keyword').optional().isIn(['stop', 'start', 'help', 'none']),
+    query('from').optional().isString(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      // Messages we couldn't link to anyone's notification are only visible to admins
+      const filters: any = isAdmin(req) ? {} : { userId: req.user!.id };
+
+      if (req.query.from) filters.from = req.query.from;
+      if (req.query.keyword) filters.keyword = req.query.keyword === 'none' ? null : req.query.keyword;
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const skip = (page - 1) * limit;
+
+      const [messages, total] = await Promise.all([
+        prisma.inboundMessage.findMany({
+          where: filters,
+          include: {
+            notificationLog: {
+              select: { id: true, notificationId: true, campaignId: true, message: true, createdAt: true },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        prisma.inboundMessage.count({ where: filters }),
+      ]);
+
+      res.json({
+        messages: messages.map(({ notificationLog, ...message }) => ({
+          ...message,
+          inReplyTo: notificationLog,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Inbound messages fetch error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
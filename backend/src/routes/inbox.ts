@@ -0,0 +1,157 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { syncLogReadState, syncAllLogsRead } from '../services/inboxService';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// List inbox items, newest first, using the last item's id as the cursor
+router.get('/',
+  authenticateToken,
+  [
+    query('cursor').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('status').optional().isIn(['unread', 'read', 'archived', 'all']),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const userId = req.user!.id;
+      const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = (req.query.status as string) || 'inbox';
+
+      const filters: any = { userId };
+      if (cursor) filters.id = { lt: cursor };
+      if (status === 'unread') filters.readAt = null;
+      if (status === 'read') filters.readAt = { not: null };
+      if (status === 'archived') filters.archivedAt = { not: null };
+      else if (status !== 'all') filters.archivedAt = null;
+
+      // Fetch one extra row to know whether another page exists
+      const items = await prisma.inboxItem.findMany({
+        where: filters,
+        orderBy: { id: 'desc' },
+        take: limit + 1,
+      });
+
+      const hasMore = items.length > limit;
+      const page = hasMore ? items.slice(0, limit) : items;
+
+      res.json({
+        items: page,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      });
+    } catch (error) {
+      console.error('Inbox fetch error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Get unread count
+router.get('/unread-count', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const count = await prisma.inboxItem.count({
+      where: { userId: req.user!.id, readAt: null, archivedAt: null },
+    });
+
+    res.json({ unread: count });
+  } catch (error) {
+    console.error('Inbox unread count error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark all items as read
+router.post('/read-all', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const readAt = new Date();
+
+    const result = await prisma.inboxItem.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt },
+    });
+    await syncAllLogsRead(userId, readAt);
+
+    res.json({ message: 'All notifications marked as read', updated: result.count });
+  } catch (error) {
+    console.error('Inbox mark all read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Shared handler for state changes on a single item
+function updateInboxItem(action: 'read' | 'unread' | 'archive') {
+  return async (req: AuthRequest, res: express.Response): Promise<void> => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const userId = req.user!.id;
+
+      const item = await prisma.inboxItem.findFirst({
+        where: { id: itemId, userId },
+      });
+
+      if (!item) {
+        res.status(404).json({ error: 'Inbox item not found' });
+        return;
+      }
+
+      const now = new Date();
+      const data =
+        action === 'read' ? { readAt: item.readAt || now } :
+        action === 'unread' ? { readAt: null } :
+        { archivedAt: item.archivedAt || now };
+
+      const updated = await prisma.inboxItem.update({
+        where: { id: itemId },
+        data,
+      });
+
+      if (action !== 'archive') {
+        await syncLogReadState([itemId], updated.readAt);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error(`Inbox ${action} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+router.post('/:id/read', authenticateToken, updateInboxItem('read'));
+router.post('/:id/unread', authenticateToken, updateInboxItem('unread'));
+router.post('/:id/archive', authenticateToken, updateInboxItem('archive'));
+
+// Delete inbox item
+router.delete('/:id', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const itemId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    const result = await prisma.inboxItem.deleteMany({
+      where: { id: itemId, userId },
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Inbox item not found' });
+      return;
+    }
+
+    res.json({ message: 'Inbox item deleted successfully' });
+  } catch (error) {
+    console.error('Inbox delete error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
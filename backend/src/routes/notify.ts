@@ -1,38 +1,86 @@
 import express from "express";
-import { body, validationResult } from "express-validator";
-import { notificationQueue } from "../queue/notificationQueue";
+import { body, query, validationResult } from "express-validator";
 import { PrismaClient } from "@prisma/client";
-import { authenticateToken, authenticateApiKey, AuthRequest } from "../middleware/auth";
+import { authenticate, AuthRequest } from "../middleware/auth";
 import { notificationLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
+import {
+  submitNotification,
+  scheduleNotification,
+  findNotificationByPublicId,
+  updateScheduledNotification,
+  cancelScheduledNotification,
+  NotificationInput,
+} from "../services/notificationService";
+import { isScheduledJobPending } from "../scheduler/scheduledJobs";
+import { getChannel, getChannelNames, isValidRecipient } from "../channels";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
-// Middleware to authenticate either via JWT or API key
-const authenticate = (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
-  const authHeader = req.headers['authorization'];
-  const apiKey = req.headers['x-api-key'];
-
-  if (authHeader) {
-    return authenticateToken(req, res, next);
-  } else if (apiKey) {
-    return authenticateApiKey(req, res, next);
-  } else {
-    return res.status(401).json({ error: 'Authentication required. Provide either Authorization header or x-api-key header.' });
+const MAX_BULK_SCHEDULED = 500;
+
+// Admins can manage every user's scheduled notifications, everyone else only their own
+function ownerFilter(req: AuthRequest) {
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+  return isAdmin ? {} : { userId: req.user!.id };
+}
+
+// Filters shared by the scheduled list and bulk operations; the date range applies to sendAt
+function buildScheduledFilters(req: AuthRequest, source: Record<string, any>) {
+  const filters: any = { ...ownerFilter(req) };
+
+  if (source.status) filters.status = source.status;
+  if (source.channel) filters.channel = source.channel;
+  if (source.templateId) filters.templateId = parseInt(source.templateId);
+  if (source.campaignId) filters.campaignId = parseInt(source.campaignId);
+  if (source.startDate || source.endDate) {
+    filters.sendAt = {
+      ...(source.startDate && { gte: new Date(source.startDate) }),
+      ...(source.endDate && { lte: new Date(source.endDate) }),
+    };
   }
-};
+  if (source.ids) filters.id = { in: source.ids };
+
+  return filters;
+}
+
+const bulkSelectionValidators = [
+  body("ids").optional().isArray({ min: 1, max: MAX_BULK_SCHEDULED }),
+  body("ids.*").optional().isInt(),
+  body("channel").optional().isString(),
+  body("templateId").optional().isInt(),
+  body("campaignId").optional().isInt(),
+  body("startDate").optional().isISO8601(),
+  body("endDate").optional().isISO8601(),
+];
+
+// Bulk operations must be narrowed down, never applied to everything by accident
+function hasBulkSelection(source: Record<string, any>) {
+  return ["ids", "channel", "templateId", "campaignId", "startDate", "endDate"]
+    .some((key) => source[key] !== undefined);
+}
 
 // Send notification
 router.post(
   "/",
   notificationLimiter,
   authenticate,
+  idempotency,
   [
-    body("to").isString().notEmpty(),
-    body("channel").isIn(["email", "sms", "in-app"]),
+    body("channel").isIn(getChannelNames()),
+    body("to")
+      .isString()
+      .notEmpty()
+      .custom((to, { req }) => isValidRecipient(req.body.channel, to))
+      .withMessage("Invalid recipient for channel"),
     body("message").isString().notEmpty(),
     body("subject").optional().isString(),
     body("sendAt").optional().isISO8601(),
+    body("expiresAt").optional().isISO8601(),
+    body("priority").optional().isIn(["normal", "urgent"]),
+    body("category").optional().matches(/^[a-z0-9_-]{1,50}$/i),
+    body("track").optional().isBoolean(),
     body("templateId").optional().isInt(),
     body("metadata").optional().isObject(),
   ],
@@ -43,11 +91,12 @@ router.post(
       return;
     }
 
-    const { to, channel, message, subject, sendAt, templateId, metadata } = req.body;
+    const { to, channel, message, subject, sendAt, expiresAt, priority, category, track, templateId, metadata } = req.body;
     const userId = req.user!.id;
 
     try {
       // Validate template if provided
+      let templateVersion: number | null = null;
       if (templateId) {
         const template = await prisma.notificationTemplate.findFirst({
           where: { id: templateId, userId, isActive: true },
@@ -62,50 +111,38 @@ router.post(
           res.status(400).json({ error: 'Template channel mismatch' });
           return;
         }
+        templateVersion = template.version;
       }
 
+      const input = {
+        userId,
+        to,
+        channel,
+        message,
+        subject: getChannel(channel)!.supportsSubject ? subject : null,
+        templateId,
+        templateVersion,
+        metadata,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        priority,
+        category,
+        trackEngagement: track === true,
+      };
+
       if (sendAt) {
         // Schedule notification
-        const scheduled = await prisma.scheduledNotification.create({
-          data: {
-            userId,
-            to,
-            channel,
-            message,
-            subject: channel === 'email' ? subject : null,
-            templateId,
-            sendAt: new Date(sendAt),
-            metadata,
-          },
-        });
+        const notification = await scheduleNotification(input, new Date(sendAt));
 
         res.status(202).json({ 
           status: "scheduled", 
           sendAt,
-          id: scheduled.id
+          id: notification.publicId,
+          scheduledId: notification.schedule!.id
         });
       } else {
         // Send immediately
-        await notificationQueue.add(
-          "send",
-          { 
-            userId,
-            to, 
-            channel, 
-            message,
-            subject: channel === 'email' ? subject : null,
-            templateId,
-            metadata
-          },
-          {
-            attempts: 3,
-            backoff: {
-              type: "exponential",
-              delay: 10000,
-            },
-          }
-        );
-        res.status(202).json({ status: "queued" });
+        const notification = await submitNotification(input);
+        res.status(202).json({ status: "queued", id: notification.publicId });
       }
     } catch (error) {
       console.error('Notification send error:', error);
@@ -119,13 +156,20 @@ router.post(
   "/bulk",
   notificationLimiter,
   authenticate,
+  idempotency,
   [
     body("recipients").isArray({ min: 1, max: 100 }),
-    body("channel").isIn(["email", "sms", "in-app"]),
+    body("channel").isIn(getChannelNames()),
+    body("recipients.*")
+      .custom((to, { req }) => typeof to === "string" && isValidRecipient(req.body.channel, to))
+      .withMessage("Invalid recipient for channel"),
     body("message").isString().notEmpty(),
     body("subject").optional().isString(),
     body("templateId").optional().isInt(),
     body("sendAt").optional().isISO8601(),
+    body("priority").optional().isIn(["normal", "urgent"]),
+    body("category").optional().matches(/^[a-z0-9_-]{1,50}$/i),
+    body("track").optional().isBoolean(),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -134,11 +178,12 @@ router.post(
       return;
     }
 
-    const { recipients, channel, message, subject, templateId, sendAt } = req.body;
+    const { recipients, channel, message, subject, templateId, sendAt, priority, category, track } = req.body;
     const userId = req.user!.id;
 
     try {
       // Validate template if provided
+      let templateVersion: number | null = null;
       if (templateId) {
         const template = await prisma.notificationTemplate.findFirst({
           where: { id: templateId, userId, isActive: true },
@@ -153,59 +198,44 @@ router.post(
           res.status(400).json({ error: 'Template channel mismatch' });
           return;
         }
+        templateVersion = template.version;
       }
 
+      const inputs = recipients.map((to: string) => ({
+        userId,
+        to,
+        channel,
+        message,
+        subject: getChannel(channel)!.supportsSubject ? subject : null,
+        templateId,
+        templateVersion,
+        priority,
+        category,
+        trackEngagement: track === true,
+      }));
+
       if (sendAt) {
         // Schedule bulk notifications
         const scheduledNotifications = await Promise.all(
-          recipients.map((to: string) =>
-            prisma.scheduledNotification.create({
-              data: {
-                userId,
-                to,
-                channel,
-                message,
-                subject: channel === 'email' ? subject : null,
-                templateId,
-                sendAt: new Date(sendAt),
-              },
-            })
-          )
+          inputs.map((input: NotificationInput) => scheduleNotification(input, new Date(sendAt)))
         );
 
         res.status(202).json({ 
           status: "scheduled", 
           sendAt,
           count: scheduledNotifications.length,
-          ids: scheduledNotifications.map(n => n.id)
+          ids: scheduledNotifications.map(n => n.publicId)
         });
       } else {
         // Send immediately
-        const jobs = recipients.map((to: string) =>
-          notificationQueue.add(
-            "send",
-            { 
-              userId,
-              to, 
-              channel, 
-              message,
-              subject: channel === 'email' ? subject : null,
-              templateId
-            },
-            {
-              attempts: 3,
-              backoff: {
-                type: "exponential",
-                delay: 10000,
-              },
-            }
-          )
+        const notifications = await Promise.all(
+          inputs.map((input: NotificationInput) => submitNotification(input))
         );
 
-        await Promise.all(jobs);
         res.status(202).json({ 
           status: "queued",
-          count: recipients.length
+          count: notifications.length,
+          ids: notifications.map(n => n.publicId)
         });
       }
     } catch (error) {
@@ -221,49 +251,316 @@ router.get(
   authenticate,
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     try {
-      const notificationId = parseInt(req.params.id);
-      const userId = req.user!.id;
+      const notification = await findNotificationByPublicId(req.params.id, req.user!.id);
+
+      if (!notification) {
+        res.status(404).json({ error: 'Notification not found' });
+        return;
+      }
 
-      // Check in notification logs first
-      const log = await prisma.notificationLog.findFirst({
-        where: { id: notificationId, userId },
+      res.json({
+        id: notification.publicId,
+        status: notification.status,
+        priority: notification.priority,
+        category: notification.category,
+        to: notification.to,
+        channel: notification.channel,
+        attemptCount: notification.attemptCount,
+        lastError: notification.lastError,
+        skipReason: notification.skipReason,
+        sendAt: notification.schedule?.sendAt ?? null,
+        expiresAt: notification.expiresAt,
+        deferredUntil: notification.deferredUntil,
+        queuedAt: notification.queuedAt,
+        deliveredAt: notification.deliveredAt,
+        failedAt: notification.failedAt,
+        cancelledAt: notification.cancelledAt,
+        createdAt: notification.createdAt,
+        attempts: notification.attempts,
       });
+    } catch (error) {
+      console.error('Notification status error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
 
-      if (log) {
-        res.json({
-          id: log.id,
-          status: log.status,
-          to: log.to,
-          channel: log.channel,
-          error: log.error,
-          attempt: log.attempt,
-          deliveredAt: log.deliveredAt,
-          readAt: log.readAt,
-          createdAt: log.createdAt,
-        });
+// List scheduled notifications
+router.get(
+  "/scheduled",
+  authenticate,
+  [
+    query("status").optional().isIn(["pending", "queued", "sent", "failed", "cancelled", "expired", "skipped"]),
+    query("startDate").optional().isISO8601(),
+    query("endDate").optional().isISO8601(),
+    query("templateId").optional().isInt(),
+    query("campaignId").optional().isInt(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const filters = buildScheduledFilters(req, { ...req.query, ids: undefined });
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const skip = (page - 1) * limit;
+
+      const [scheduled, total] = await Promise.all([
+        prisma.scheduledNotification.findMany({
+          where: filters,
+          orderBy: { sendAt: "asc" },
+          skip,
+          take: limit,
+          include: {
+            notification: { select: { publicId: true, status: true } },
+          },
+        }),
+        prisma.scheduledNotification.count({ where: filters }),
+      ]);
+
+      res.json({
+        scheduled: scheduled.map(({ notification, ...entry }) => ({
+          ...entry,
+          notificationId: notification?.publicId ?? null,
+          notificationStatus: notification?.status ?? null,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Scheduled notifications fetch error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Get single scheduled notification
+router.get(
+  "/scheduled/:id",
+  authenticate,
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    try {
+      const scheduled = await prisma.scheduledNotification.findFirst({
+        where: { id: parseInt(req.params.id), ...ownerFilter(req) },
+        include: {
+          notification: {
+            select: {
+              publicId: true,
+              status: true,
+              attemptCount: true,
+              lastError: true,
+              deliveredAt: true,
+              failedAt: true,
+              cancelledAt: true,
+            },
+          },
+          template: { select: { id: true, name: true } },
+          campaign: { select: { id: true, name: true, status: true } },
+        },
+      });
+
+      if (!scheduled) {
+        res.status(404).json({ error: 'Scheduled notification not found' });
         return;
       }
 
-      // Check in scheduled notifications
+      res.json({
+        ...scheduled,
+        editable: scheduled.status === 'pending' && (await isScheduledJobPending(scheduled.id)),
+      });
+    } catch (error) {
+      console.error('Scheduled notification fetch error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Cancel pending scheduled notifications matching a filter or campaign
+router.post(
+  "/scheduled/cancel",
+  authenticate,
+  bulkSelectionValidators,
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!hasBulkSelection(req.body)) {
+      res.status(400).json({ error: 'Provide ids or at least one filter' });
+      return;
+    }
+
+    try {
+      const pending = await prisma.scheduledNotification.findMany({
+        where: buildScheduledFilters(req, { ...req.body, status: 'pending' }),
+        orderBy: { sendAt: 'asc' },
+        take: MAX_BULK_SCHEDULED,
+      });
+
+      const cancelled: number[] = [];
+      const failed: { id: number; error: string }[] = [];
+      for (const scheduled of pending) {
+        try {
+          if (await cancelScheduledNotification(scheduled)) {
+            cancelled.push(scheduled.id);
+          } else {
+            failed.push({ id: scheduled.id, error: 'Already being sent' });
+          }
+        } catch (error: any) {
+          failed.push({ id: scheduled.id, error: error.message });
+        }
+      }
+
+      res.json({
+        message: 'Scheduled notifications cancelled',
+        cancelled: cancelled.length,
+        failed,
+      });
+    } catch (error) {
+      console.error('Bulk cancel scheduled notifications error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Shift the send time of pending scheduled notifications matching a filter or campaign
+router.post(
+  "/scheduled/reschedule",
+  authenticate,
+  [
+    ...bulkSelectionValidators,
+    body("shiftMinutes")
+      .isInt()
+      .custom((shift) => parseInt(shift) !== 0)
+      .withMessage("shiftMinutes must be a non-zero integer"),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!hasBulkSelection(req.body)) {
+      res.status(400).json({ error: 'Provide ids or at least one filter' });
+      return;
+    }
+
+    try {
+      const shiftMs = parseInt(req.body.shiftMinutes) * 60 * 1000;
+      const pending = await prisma.scheduledNotification.findMany({
+        where: buildScheduledFilters(req, { ...req.body, status: 'pending' }),
+        orderBy: { sendAt: 'asc' },
+        take: MAX_BULK_SCHEDULED,
+      });
+
+      const rescheduled: { id: number; sendAt: Date }[] = [];
+      const failed: { id: number; error: string }[] = [];
+      for (const scheduled of pending) {
+        const sendAt = new Date(scheduled.sendAt.getTime() + shiftMs);
+
+        try {
+          if (sendAt.getTime() <= Date.now()) {
+            failed.push({ id: scheduled.id, error: 'New send time would be in the past' });
+            continue;
+          }
+
+          if (!(await isScheduledJobPending(scheduled.id))) {
+            failed.push({ id: scheduled.id, error: 'Already being sent' });
+            continue;
+          }
+
+          await updateScheduledNotification(scheduled, { sendAt });
+          rescheduled.push({ id: scheduled.id, sendAt });
+        } catch (error: any) {
+          failed.push({ id: scheduled.id, error: error.message });
+        }
+      }
+
+      res.json({
+        message: 'Scheduled notifications rescheduled',
+        rescheduled: rescheduled.length,
+        items: rescheduled,
+        failed,
+      });
+    } catch (error) {
+      console.error('Bulk reschedule scheduled notifications error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Reschedule or edit a scheduled notification before it fires
+router.put(
+  "/scheduled/:id",
+  authenticate,
+  [
+    body("sendAt")
+      .optional()
+      .isISO8601()
+      .custom((sendAt) => new Date(sendAt).getTime() > Date.now())
+      .withMessage("sendAt must be in the future"),
+    body("to").optional().isString().notEmpty(),
+    body("message").optional().isString().notEmpty(),
+    body("subject").optional().isString(),
+    body("metadata").optional().isObject(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const scheduledId = parseInt(req.params.id);
+      const userId = req.user!.id;
+      const { sendAt, to, message, subject, metadata } = req.body;
+
       const scheduled = await prisma.scheduledNotification.findFirst({
-        where: { id: notificationId, userId },
+        where: { id: scheduledId, userId, status: 'pending' },
       });
 
-      if (scheduled) {
-        res.json({
-          id: scheduled.id,
-          status: scheduled.status,
-          to: scheduled.to,
-          channel: scheduled.channel,
-          sendAt: scheduled.sendAt,
-          createdAt: scheduled.createdAt,
-        });
+      if (!scheduled) {
+        res.status(404).json({ error: 'Scheduled notification not found or can no longer be changed' });
         return;
       }
 
-      res.status(404).json({ error: 'Notification not found' });
+      if (to !== undefined && !isValidRecipient(scheduled.channel, to)) {
+        res.status(400).json({ error: 'Invalid recipient for channel' });
+        return;
+      }
+
+      if (!(await isScheduledJobPending(scheduled.id))) {
+        res.status(409).json({ error: 'Scheduled notification is already being sent' });
+        return;
+      }
+
+      const updated = await updateScheduledNotification(scheduled, {
+        ...(sendAt && { sendAt: new Date(sendAt) }),
+        ...(to !== undefined && { to }),
+        ...(message !== undefined && { message }),
+        ...(subject !== undefined && getChannel(scheduled.channel)?.supportsSubject && { subject }),
+        ...(metadata !== undefined && { metadata }),
+      });
+
+      res.json({
+        message: 'Scheduled notification updated successfully',
+        scheduled: updated,
+      });
     } catch (error) {
-      console.error('Notification status error:', error);
+      console.error('Update scheduled notification error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -287,10 +584,10 @@ router.delete(
         return;
       }
 
-      await prisma.scheduledNotification.update({
-        where: { id: notificationId },
-        data: { status: 'cancelled' },
-      });
+      if (!(await cancelScheduledNotification(scheduled))) {
+        res.status(409).json({ error: 'Scheduled notification is already being sent' });
+        return;
+      }
 
       res.json({ message: 'Scheduled notification cancelled successfully' });
     } catch (error) {
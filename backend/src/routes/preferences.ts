@@ -0,0 +1,243 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import {
+  findRecipientPreference,
+  saveRecipientPreference,
+  validateSubscriptions,
+  validateQuietHours,
+  parseSubscriptions,
+  parseQuietHours,
+  normalizeRecipient,
+} from '../services/preferenceService';
+import { isValidTimezone } from '../scheduler/recurrence';
+import { normalizeLocale } from '../utils/locale';
+import { signRecipientToken, verifyRecipientToken, buildRecipientLink } from '../utils/recipientLinks';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const subscriptionValidators = [
+  body('channels').optional(),
+  body('categories').optional(),
+  body('locale')
+    .optional({ values: 'null' })
+    .custom((locale) => !!normalizeLocale(locale))
+    .withMessage('Invalid locale'),
+  body('timezone')
+    .optional({ values: 'null' })
+    .custom((timezone) => typeof timezone === 'string' && isValidTimezone(timezone))
+    .withMessage('Unknown timezone'),
+  body('quietHours')
+    .optional({ values: 'null' })
+    .custom((quietHours) => {
+      const problems = validateQuietHours(quietHours);
+      if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+      }
+      return true;
+    }),
+  body().custom((input) => {
+    const problems = validateSubscriptions(input);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+    return true;
+  }),
+];
+
+function toResponse(
+  recipient: string,
+  preference: {
+    channels: unknown;
+    categories: unknown;
+    locale?: string | null;
+    timezone?: string | null;
+    quietHours?: unknown;
+    updatedAt?: Date;
+  } | null
+) {
+  return {
+    recipient,
+    ...parseSubscriptions(preference),
+    locale: preference?.locale ?? null,
+    timezone: preference?.timezone ?? null,
+    quietHours: parseQuietHours(preference?.quietHours) ?? null,
+    updatedAt: preference?.updatedAt ?? null,
+  };
+}
+
+// List recipient preferences for the current account
+router.get('/', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const filters: any = { ownerId: req.user!.id };
+    if (req.query.recipient) filters.recipient = normalizeRecipient(req.query.recipient as string);
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const [preferences, total] = await Promise.all([
+      prisma.recipientPreference.findMany({
+        where: filters,
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.recipientPreference.count({ where: filters }),
+    ]);
+
+    res.json({
+      preferences,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Recipient preferences fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create or update a recipient's preferences. Recipients are addresses, or "user:<id>"
+// for in-app notifications to a registered user.
+router.put('/',
+  authenticate,
+  [
+    body('recipient').isString().trim().notEmpty(),
+    ...subscriptionValidators,
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const { recipient, channels, categories, locale, timezone, quietHours } = req.body;
+      const preference = await saveRecipientPreference(req.user!.id, recipient, {
+        channels,
+        categories,
+        locale,
+        timezone,
+        quietHours,
+      });
+
+      res.json({
+        message: 'Recipient preferences updated successfully',
+        preference: toResponse(preference.recipient, preference),
+      });
+    } catch (error) {
+      console.error('Recipient preferences update error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Create a signed link recipients can use to manage their preferences without logging in
+router.post('/link',
+  authenticate,
+  [
+    body('recipient').isString().trim().notEmpty(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const recipient = normalizeRecipient(req.body.recipient);
+    const token = signRecipientToken({ ownerId: req.user!.id, recipient, purpose: 'preferences' });
+
+    res.json({
+      recipient,
+      token,
+      url: buildRecipientLink('/api/preferences/public', token),
+    });
+  }
+);
+
+// Read preferences through a signed link (no login)
+router.get('/public/:token', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const link = verifyRecipientToken(req.params.token, 'preferences');
+
+    if (!link) {
+      res.status(401).json({ error: 'Invalid or expired link' });
+      return;
+    }
+
+    const preference = await findRecipientPreference(link.ownerId, link.recipient);
+    res.json(toResponse(link.recipient, preference));
+  } catch (error) {
+    console.error('Public preferences fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update preferences through a signed link (no login)
+router.put('/public/:token',
+  subscriptionValidators,
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const link = verifyRecipientToken(req.params.token, 'preferences');
+
+      if (!link) {
+        res.status(401).json({ error: 'Invalid or expired link' });
+        return;
+      }
+
+      const { channels, categories, locale, timezone, quietHours } = req.body;
+      const preference = await saveRecipientPreference(link.ownerId, link.recipient, {
+        channels,
+        categories,
+        locale,
+        timezone,
+        quietHours,
+      });
+
+      res.json({
+        message: 'Preferences updated successfully',
+        preference: toResponse(link.recipient, preference),
+      });
+    } catch (error) {
+      console.error('Public preferences update error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Delete a recipient's preferences, subscribing them to everything again
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const preference = await prisma.recipientPreference.findFirst({
+      where: { id: parseInt(req.params.id), ownerId: req.user!.id },
+    });
+
+    if (!preference) {
+      res.status(404).json({ error: 'Recipient preferences not found' });
+      return;
+    }
+
+    await prisma.recipientPreference.delete({ where: { id: preference.id } });
+
+    res.json({ message: 'Recipient preferences deleted successfully' });
+  } catch (error) {
+    console.error('Recipient preferences deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,327 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { notificationLimiter } from '../middleware/rateLimiter';
+import {
+  spawnNextOccurrence,
+  pauseRecurringSeries,
+  resumeRecurringSeries,
+  skipNextOccurrence,
+  deleteRecurringSeries,
+  getUpcomingOccurrences,
+} from '../services/recurringService';
+import { validateRecurrence, nextOccurrence } from '../scheduler/recurrence';
+import { getChannel, getChannelNames, isValidRecipient } from '../channels';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const MAX_UPCOMING = 100;
+
+async function findSeries(req: AuthRequest) {
+  return prisma.recurringNotification.findFirst({
+    where: { id: parseInt(req.params.id), userId: req.user!.id },
+  });
+}
+
+// Create a recurring notification
+router.post('/',
+  notificationLimiter,
+  authenticate,
+  [
+    body('name').optional().isString(),
+    body('channel').isIn(getChannelNames()),
+    body('to')
+      .isString()
+      .notEmpty()
+      .custom((to, { req }) => isValidRecipient(req.body.channel, to))
+      .withMessage('Invalid recipient for channel'),
+    body('message').isString().notEmpty(),
+    body('subject').optional().isString(),
+    body('templateId').optional().isInt(),
+    body('metadata').optional().isObject(),
+    body('scheduleType').isIn(['cron', 'rrule']),
+    body('expression').isString().notEmpty(),
+    body('timezone').optional().isString(),
+    body('startAt').optional().isISO8601(),
+    body('endAt').optional().isISO8601(),
+    body('maxOccurrences').optional().isInt({ min: 1 }),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const {
+      name, to, channel, message, subject, templateId, metadata,
+      scheduleType, expression, timezone = 'UTC', startAt, endAt, maxOccurrences,
+    } = req.body;
+    const userId = req.user!.id;
+
+    try {
+      const scheduleError = validateRecurrence(scheduleType, expression, timezone);
+      if (scheduleError) {
+        res.status(400).json({ error: scheduleError });
+        return;
+      }
+
+      if (templateId) {
+        const template = await prisma.notificationTemplate.findFirst({
+          where: { id: templateId, userId, isActive: true },
+        });
+
+        if (!template) {
+          res.status(400).json({ error: 'Invalid template or template not found' });
+          return;
+        }
+
+        if (template.channel !== channel) {
+          res.status(400).json({ error: 'Template channel mismatch' });
+          return;
+        }
+      }
+
+      const rule = {
+        scheduleType,
+        expression,
+        timezone,
+        startAt: startAt ? new Date(startAt) : new Date(),
+        endAt: endAt ? new Date(endAt) : null,
+      };
+
+      if (!nextOccurrence(rule, new Date())) {
+        res.status(400).json({ error: 'Schedule has no future occurrences' });
+        return;
+      }
+
+      const series = await prisma.recurringNotification.create({
+        data: {
+          ...rule,
+          userId,
+          name,
+          to,
+          channel,
+          message,
+          subject: getChannel(channel)!.supportsSubject ? subject : null,
+          templateId,
+          metadata,
+          maxOccurrences,
+        },
+      });
+
+      const occurrence = await spawnNextOccurrence(series);
+
+      res.status(201).json({
+        message: 'Recurring notification created successfully',
+        recurring: await prisma.recurringNotification.findUnique({ where: { id: series.id } }),
+        nextOccurrence: occurrence && {
+          id: occurrence.publicId,
+          scheduledId: occurrence.schedule!.id,
+          sendAt: occurrence.schedule!.sendAt,
+        },
+      });
+    } catch (error) {
+      console.error('Recurring notification creation error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// List recurring notifications
+router.get('/', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const filters: any = { userId: req.user!.id };
+    if (req.query.status) filters.status = req.query.status;
+    if (req.query.channel) filters.channel = req.query.channel;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const [recurring, total] = await Promise.all([
+      prisma.recurringNotification.findMany({
+        where: filters,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.recurringNotification.count({ where: filters }),
+    ]);
+
+    res.json({
+      recurring,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Recurring notifications fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single recurring notification with its recent occurrences
+router.get('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await prisma.recurringNotification.findFirst({
+      where: { id: parseInt(req.params.id), userId: req.user!.id },
+      include: {
+        occurrences: {
+          orderBy: { sendAt: 'desc' },
+          take: 20,
+          select: { id: true, sendAt: true, status: true, notificationId: true },
+        },
+      },
+    });
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    res.json(series);
+  } catch (error) {
+    console.error('Recurring notification fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List upcoming occurrences
+router.get('/:id/upcoming', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    const count = Math.min(parseInt(req.query.count as string) || 10, MAX_UPCOMING);
+    const occurrences = await getUpcomingOccurrences(series, count);
+
+    res.json({
+      id: series.id,
+      status: series.status,
+      timezone: series.timezone,
+      occurrences,
+    });
+  } catch (error) {
+    console.error('Recurring occurrences fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pause a recurring notification, cancelling its pending occurrence
+router.post('/:id/pause', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    if (series.status !== 'active') {
+      res.status(400).json({ error: 'Only active recurring notifications can be paused' });
+      return;
+    }
+
+    const paused = await pauseRecurringSeries(series);
+
+    res.json({
+      message: 'Recurring notification paused successfully',
+      recurring: paused,
+    });
+  } catch (error) {
+    console.error('Recurring notification pause error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Resume a paused recurring notification from the next occurrence after now
+router.post('/:id/resume', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    if (series.status !== 'paused') {
+      res.status(400).json({ error: 'Only paused recurring notifications can be resumed' });
+      return;
+    }
+
+    const resumed = await resumeRecurringSeries(series);
+
+    res.json({
+      message: resumed.status === 'completed'
+        ? 'Recurring notification has no occurrences left'
+        : 'Recurring notification resumed successfully',
+      recurring: resumed,
+    });
+  } catch (error) {
+    console.error('Recurring notification resume error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Skip the next occurrence
+router.post('/:id/skip', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    const result = await skipNextOccurrence(series);
+
+    if (!result) {
+      res.status(409).json({ error: 'No upcoming occurrence can be skipped' });
+      return;
+    }
+
+    res.json({
+      message: 'Next occurrence skipped successfully',
+      skipped: { scheduledId: result.skipped.id, sendAt: result.skipped.sendAt },
+      nextOccurrence: result.next && {
+        id: result.next.publicId,
+        scheduledId: result.next.schedule!.id,
+        sendAt: result.next.schedule!.sendAt,
+      },
+    });
+  } catch (error) {
+    console.error('Recurring notification skip error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a recurring notification and cancel its pending occurrence
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+
+    if (!series) {
+      res.status(404).json({ error: 'Recurring notification not found' });
+      return;
+    }
+
+    await deleteRecurringSeries(series);
+
+    res.json({ message: 'Recurring notification deleted successfully' });
+  } catch (error) {
+    console.error('Recurring notification deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,362 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import {
+  addSuppression,
+  ingestBounces,
+  parseDeliveryReport,
+  parseCsv,
+  toCsv,
+  SUPPRESSION_REASONS,
+  BounceReport,
+} from '../services/suppressionService';
+import { normalizeRecipient } from '../services/preferenceService';
+import { getChannelNames, isValidRecipient, SuppressionReason } from '../channels';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_EXPORT_ROWS = 50000;
+
+function isAdmin(req: AuthRequest) {
+  return req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+}
+
+// Everyone sees global entries and their own; admins see all of them
+function visibleFilter(req: AuthRequest) {
+  return isAdmin(req) ? {} : { OR: [{ userId: null }, { userId: req.user!.id }] };
+}
+
+// Only admins may change global entries
+function editableFilter(req: AuthRequest) {
+  return isAdmin(req) ? {} : { userId: req.user!.id };
+}
+
+// Admins write global entries unless they ask for their own scope
+function targetUserId(req: AuthRequest, scope?: string) {
+  return isAdmin(req) && scope !== 'user' ? null : req.user!.id;
+}
+
+function buildFilters(req: AuthRequest) {
+  const filters: any = { ...visibleFilter(req) };
+
+  if (req.query.channel) filters.channel = req.query.channel;
+  if (req.query.reason) filters.reason = req.query.reason;
+  if (req.query.source) filters.source = req.query.source;
+  if (req.query.address) filters.address = normalizeRecipient(req.query.address as string);
+  if (req.query.scope === 'global') filters.userId = null;
+  if (req.query.scope === 'user') filters.userId = req.user!.id;
+  if (req.query.active === 'true') {
+    filters.AND = [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }];
+  }
+
+  return filters;
+}
+
+const filterValidators = [
+  query('channel').optional().isIn(getChannelNames()),
+  query('reason').optional().isIn(SUPPRESSION_REASONS),
+  query('scope').optional().isIn(['global', 'user']),
+];
+
+// List suppressed addresses
+router.get('/', authenticate, filterValidators, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+
+  try {
+    const filters = buildFilters(req);
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const [suppressions, total] = await Promise.all([
+      prisma.suppression.findMany({
+        where: filters,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.suppression.count({ where: filters }),
+    ]);
+
+    res.json({
+      suppressions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Suppressions fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Export suppressed addresses as CSV
+router.get('/export', authenticate, filterValidators, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+
+  try {
+    const suppressions = await prisma.suppression.findMany({
+      where: buildFilters(req),
+      orderBy: { createdAt: 'asc' },
+      take: MAX_EXPORT_ROWS,
+    });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="suppressions.csv"');
+    res.send(toCsv(suppressions));
+  } catch (error) {
+    console.error('Suppressions export error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Suppress an address
+router.post('/',
+  authenticate,
+  [
+    body('channel').isIn(getChannelNames()),
+    body('address')
+      .isString()
+      .notEmpty()
+      .custom((address, { req }) => isValidRecipient(req.body.channel, address))
+      .withMessage('Invalid address for channel'),
+    body('reason').optional().isIn(SUPPRESSION_REASONS),
+    body('detail').optional().isString(),
+    body('expiresAt').optional().isISO8601(),
+    body('scope').optional().isIn(['global', 'user']),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const { channel, address, reason = 'manual', detail, expiresAt, scope } = req.body;
+
+      const suppression = await addSuppression({
+        userId: targetUserId(req, scope),
+        address,
+        channel,
+        reason,
+        source: 'manual',
+        detail,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      });
+
+      res.status(201).json({
+        message: 'Address suppressed successfully',
+        suppression,
+      });
+    } catch (error) {
+      console.error('Suppression creation error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Import suppressed addresses from CSV with an address,channel[,reason,detail,expiresAt] header
+router.post('/import',
+  authenticate,
+  [
+    body('csv').isString().notEmpty(),
+    body('scope').optional().isIn(['global', 'user']),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const rows = parseCsv(req.body.csv);
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({ error: `A single import is limited to ${MAX_IMPORT_ROWS} rows` });
+        return;
+      }
+
+      const userId = targetUserId(req, req.body.scope);
+      let imported = 0;
+      const failed: { row: number; error: string }[] = [];
+
+      for (const [index, row] of rows.entries()) {
+        // Header is line 1
+        const line = index + 2;
+        const reason = (row.reason || 'manual') as SuppressionReason;
+        const expiresAt = row.expiresAt ? new Date(row.expiresAt) : null;
+
+        if (!getChannelNames().includes(row.channel)) {
+          failed.push({ row: line, error: `Unknown channel: ${row.channel}` });
+        } else if (!row.address || !isValidRecipient(row.channel, row.address)) {
+          failed.push({ row: line, error: 'Invalid address for channel' });
+        } else if (!SUPPRESSION_REASONS.includes(reason)) {
+          failed.push({ row: line, error: `Unknown reason: ${row.reason}` });
+        } else if (expiresAt && isNaN(expiresAt.getTime())) {
+          failed.push({ row: line, error: 'Invalid expiresAt' });
+        } else {
+          await addSuppression({
+            userId,
+            address: row.address,
+            channel: row.channel,
+            reason,
+            source: 'import',
+            detail: row.detail || null,
+            expiresAt,
+          });
+          imported++;
+        }
+      }
+
+      res.json({
+        message: 'Suppression list imported',
+        imported,
+        failed,
+      });
+    } catch (error) {
+      console.error('Suppression import error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Ingest bounces and complaints, either as raw DSN/ARF messages or already parsed reports
+router.post('/bounces',
+  authenticate,
+  [
+    body('message').optional().isString(),
+    body('bounces').optional().isArray({ max: 1000 }),
+    body('bounces.*.address').isString().notEmpty().isEmail(),
+    body('bounces.*.type').optional().isIn(['hard', 'soft', 'complaint']),
+    body('scope').optional().isIn(['global', 'user']),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { message, bounces = [], scope } = req.body;
+
+    if (!message && bounces.length === 0) {
+      res.status(400).json({ error: 'Provide a delivery report message or a list of bounces' });
+      return;
+    }
+
+    try {
+      const typeToReason: Record<string, SuppressionReason> = {
+        hard: 'hard_bounce',
+        soft: 'soft_bounce',
+        complaint: 'complaint',
+      };
+
+      const reports: BounceReport[] = [
+        ...(message ? parseDeliveryReport(message) : []),
+        ...bounces.map((bounce: any) => ({
+          address: bounce.address,
+          reason: typeToReason[bounce.type || 'hard'],
+          status: bounce.status,
+          detail: bounce.detail,
+        })),
+      ];
+
+      const entries = await ingestBounces(reports, targetUserId(req, scope), message ? 'dsn' : 'provider');
+
+      res.status(202).json({
+        message: 'Bounces processed',
+        suppressed: entries.length,
+        addresses: entries.map(entry => ({ address: entry.address, reason: entry.reason, expiresAt: entry.expiresAt })),
+      });
+    } catch (error) {
+      console.error('Bounce ingestion error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Update reason, note or expiry of a suppression
+router.put('/:id',
+  authenticate,
+  [
+    body('reason').optional().isIn(SUPPRESSION_REASONS),
+    body('detail').optional({ values: 'null' }).isString(),
+    body('expiresAt').optional({ values: 'null' }).isISO8601(),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const suppression = await prisma.suppression.findFirst({
+        where: { id: parseInt(req.params.id), ...editableFilter(req) },
+      });
+
+      if (!suppression) {
+        res.status(404).json({ error: 'Suppression not found' });
+        return;
+      }
+
+      const { reason, detail, expiresAt } = req.body;
+      const updated = await prisma.suppression.update({
+        where: { id: suppression.id },
+        data: {
+          ...(reason && { reason }),
+          ...(detail !== undefined && { detail }),
+          ...(expiresAt !== undefined && { expiresAt: expiresAt ? new Date(expiresAt) : null }),
+        },
+      });
+
+      res.json({
+        message: 'Suppression updated successfully',
+        suppression: updated,
+      });
+    } catch (error) {
+      console.error('Suppression update error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Remove an address from the suppression list
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const suppression = await prisma.suppression.findFirst({
+      where: { id: parseInt(req.params.id), ...editableFilter(req) },
+    });
+
+    if (!suppression) {
+      res.status(404).json({ error: 'Suppression not found' });
+      return;
+    }
+
+    await prisma.suppression.delete({ where: { id: suppression.id } });
+
+    res.json({ message: 'Suppression removed successfully' });
+  } catch (error) {
+    console.error('Suppression deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
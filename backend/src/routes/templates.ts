@@ -1,32 +1,70 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { body, query, validationResult } from 'express-validator';
+import { PrismaClient, NotificationTemplate } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { submitNotification, scheduleNotification } from '../services/notificationService';
+import { getChannel, getChannelNames, isValidRecipient } from '../channels';
+import {
+  checkTemplateSyntax,
+  extractTemplateVariables,
+  deriveVariableSchema,
+  renderTemplateContent,
+  diffTemplateVersions,
+  normalizeTemplateLocales,
+  normalizeVariableSchema,
+  parseTemplateLocales,
+  validateTemplateVariables,
+  TemplateLocales,
+} from '../services/templateService';
+import { TemplateSyntaxError } from '../services/templateEngine';
+import { findRecipientLocale } from '../services/preferenceService';
+import { normalizeLocale } from '../utils/locale';
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
-// Helper function to extract variables from template content
-function extractVariables(content: string, subject?: string): string[] {
-  const variableRegex = /\{\{(\w+)\}\}/g;
-  const variables = new Set<string>();
-  
-  // Extract from content
-  let match;
-  while ((match = variableRegex.exec(content)) !== null) {
-    variables.add(match[1]);
+type TemplateContent = Pick<NotificationTemplate, 'content' | 'subject' | 'variables' | 'locales'>;
+
+// Update data that makes `next` the template's content as a new immutable version.
+// Concurrent edits produce the same version number and fail with P2002.
+function newVersionData(template: NotificationTemplate, next: TemplateContent, userId: number, note?: string | null) {
+  const version = template.version + 1;
+  const content = {
+    content: next.content,
+    subject: next.subject,
+    variables: next.variables ?? undefined,
+    locales: next.locales ?? undefined,
+  };
+
+  return {
+    ...content,
+    version,
+    versions: {
+      create: { version, ...content, createdById: userId, note },
+    },
+  };
+}
+
+function isVersionConflict(error: any) {
+  return error?.code === 'P2002';
+}
+
+const localesValidator = body('locales').optional().custom((locales) => {
+  const { errors } = normalizeTemplateLocales(locales);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
   }
-  
-  // Extract from subject if provided
-  if (subject) {
-    variableRegex.lastIndex = 0; // Reset regex
-    while ((match = variableRegex.exec(subject)) !== null) {
-      variables.add(match[1]);
-    }
+  return true;
+});
+
+const variablesValidator = body('variables').optional().custom((variables) => {
+  const { errors } = normalizeVariableSchema(variables);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
   }
-  
-  return Array.from(variables);
-}
+  return true;
+});
 
 // Get all templates for user
 router.get('/', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
@@ -93,10 +131,11 @@ router.post('/',
   authenticateToken,
   [
     body('name').isLength({ min: 1 }).trim(),
-    body('channel').isIn(['email', 'sms', 'in-app']),
+    body('channel').isIn(getChannelNames()),
     body('content').isLength({ min: 1 }),
     body('subject').optional().isString(),
-    body('variables').optional().isArray(),
+    variablesValidator,
+    localesValidator,
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -106,6 +145,7 @@ router.post('/',
     }
 
     const { name, channel, content, subject, variables } = req.body;
+    const locales = req.body.locales ? normalizeTemplateLocales(req.body.locales).locales : {};
     const userId = req.user!.id;
 
     try {
@@ -119,8 +159,17 @@ router.post('/',
         return;
       }
 
-      // Auto-extract variables from content and subject
-      const extractedVariables = extractVariables(content, subject);
+      const problems = checkTemplateSyntax({ content, subject, locales });
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Template has syntax errors', problems });
+        return;
+      }
+
+      // Auto-extract variables from content, subject and locale variants
+      const extractedVariables = extractTemplateVariables({ content, subject, locales });
+
+      const templateSubject = getChannel(channel)!.supportsSubject ? subject : null;
+      const templateVariables = variables ? normalizeVariableSchema(variables).variables : extractedVariables;
 
       const template = await prisma.notificationTemplate.create({
         data: {
@@ -128,8 +177,19 @@ router.post('/',
           name,
           channel,
           content,
-          subject: channel === 'email' ? subject : null,
-          variables: variables || extractedVariables,
+          subject: templateSubject,
+          variables: templateVariables,
+          locales,
+          versions: {
+            create: {
+              version: 1,
+              content,
+              subject: templateSubject,
+              variables: templateVariables,
+              locales,
+              createdById: userId,
+            },
+          },
         },
       });
 
@@ -151,8 +211,10 @@ router.put('/:id',
     body('name').optional().isLength({ min: 1 }).trim(),
     body('content').optional().isLength({ min: 1 }),
     body('subject').optional().isString(),
-    body('variables').optional().isArray(),
+    variablesValidator,
     body('isActive').optional().isBoolean(),
+    body('note').optional().isString().isLength({ max: 200 }),
+    localesValidator,
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -163,7 +225,7 @@ router.put('/:id',
 
     const templateId = parseInt(req.params.id);
     const userId = req.user!.id;
-    const { name, content, subject, variables, isActive } = req.body;
+    const { name, content, subject, variables, isActive, note } = req.body;
 
     try {
       // Check if template exists and belongs to user
@@ -188,14 +250,39 @@ router.put('/:id',
         }
       }
 
+      // `locales` replaces all variants; use /:id/locales/:locale to change one
+      const next: TemplateContent = {
+        content: content || existingTemplate.content,
+        subject: !getChannel(existingTemplate.channel)?.supportsSubject
+          ? null
+          : subject !== undefined ? subject : existingTemplate.subject,
+        variables: variables ? normalizeVariableSchema(variables).variables : existingTemplate.variables,
+        locales: req.body.locales ? normalizeTemplateLocales(req.body.locales).locales : existingTemplate.locales,
+      };
+
+      const problems = checkTemplateSyntax(next);
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Template has syntax errors', problems });
+        return;
+      }
+
+      // Edited text without new declarations: re-extract like create does
+      if (!variables && (content || subject !== undefined || req.body.locales)) {
+        next.variables = deriveVariableSchema(existingTemplate.variables, extractTemplateVariables(next));
+      }
+
+      // Content changes create a new immutable version; renames and (de)activation don't
+      const contentChanged = next.content !== existingTemplate.content
+        || next.subject !== existingTemplate.subject
+        || JSON.stringify(next.variables) !== JSON.stringify(existingTemplate.variables)
+        || JSON.stringify(next.locales) !== JSON.stringify(existingTemplate.locales);
+
       const updatedTemplate = await prisma.notificationTemplate.update({
         where: { id: templateId },
         data: {
           ...(name && { name }),
-          ...(content && { content }),
-          ...(subject !== undefined && { subject }),
-          ...(variables && { variables }),
           ...(isActive !== undefined && { isActive }),
+          ...(contentChanged && newVersionData(existingTemplate, next, userId, note)),
         },
       });
 
@@ -203,13 +290,277 @@ router.put('/:id',
         message: 'Template updated successfully',
         template: updatedTemplate,
       });
-    } catch (error) {
+    } catch (error: any) {
+      // Another edit created this version number first
+      if (isVersionConflict(error)) {
+        res.status(409).json({ error: 'Template was modified concurrently, please retry' });
+        return;
+      }
       console.error('Template update error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 );
 
+// Add or replace one locale variant
+router.put('/:id/locales/:locale',
+  authenticateToken,
+  [
+    body('content').isString().isLength({ min: 1 }),
+    body('subject').optional({ values: 'null' }).isString(),
+    body('note').optional().isString().isLength({ max: 200 }),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const locale = normalizeLocale(req.params.locale);
+    if (!locale) {
+      res.status(400).json({ error: 'Invalid locale' });
+      return;
+    }
+
+    try {
+      const userId = req.user!.id;
+      const template = await prisma.notificationTemplate.findFirst({
+        where: { id: parseInt(req.params.id), userId },
+      });
+
+      if (!template) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      const { content, subject, note } = req.body;
+      const locales: TemplateLocales = {
+        ...parseTemplateLocales(template.locales),
+        [locale]: { content, subject: getChannel(template.channel)!.supportsSubject ? subject ?? null : null },
+      };
+      const next = { ...template, locales };
+
+      const problems = checkTemplateSyntax(next);
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Template has syntax errors', problems });
+        return;
+      }
+
+      const updatedTemplate = await prisma.notificationTemplate.update({
+        where: { id: template.id },
+        data: newVersionData(template, {
+          ...next,
+          variables: deriveVariableSchema(template.variables, extractTemplateVariables(next)),
+        }, userId, note),
+      });
+
+      res.json({
+        message: `Locale ${locale} saved successfully`,
+        template: updatedTemplate,
+      });
+    } catch (error: any) {
+      if (isVersionConflict(error)) {
+        res.status(409).json({ error: 'Template was modified concurrently, please retry' });
+        return;
+      }
+      console.error('Template locale update error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Remove a locale variant; recipients asking for it fall back to the next locale in their chain
+router.delete('/:id/locales/:locale', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const locale = normalizeLocale(req.params.locale);
+    const template = await prisma.notificationTemplate.findFirst({
+      where: { id: parseInt(req.params.id), userId },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const { [locale || '']: removed, ...locales } = parseTemplateLocales(template.locales);
+    if (!removed) {
+      res.status(404).json({ error: 'Locale not found' });
+      return;
+    }
+
+    const next = { ...template, locales };
+    const updatedTemplate = await prisma.notificationTemplate.update({
+      where: { id: template.id },
+      data: newVersionData(template, {
+        ...next,
+        variables: deriveVariableSchema(template.variables, extractTemplateVariables(next)),
+      }, userId, `Removed locale ${locale}`),
+    });
+
+    res.json({
+      message: `Locale ${locale} removed successfully`,
+      template: updatedTemplate,
+    });
+  } catch (error: any) {
+    if (isVersionConflict(error)) {
+      res.status(409).json({ error: 'Template was modified concurrently, please retry' });
+      return;
+    }
+    console.error('Template locale deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Version history, newest first, each with its changes from the version before it
+router.get('/:id/versions', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const templateId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    const template = await prisma.notificationTemplate.findFirst({
+      where: { id: templateId, userId },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    // One extra (older) version so the last one on the page can be diffed too
+    const [versions, total] = await Promise.all([
+      prisma.templateVersion.findMany({
+        where: { templateId },
+        orderBy: { version: 'desc' },
+        skip,
+        take: limit + 1,
+      }),
+      prisma.templateVersion.count({ where: { templateId } }),
+    ]);
+
+    res.json({
+      currentVersion: template.version,
+      versions: versions.slice(0, limit).map((version, index) => ({
+        ...version,
+        isCurrent: version.version === template.version,
+        changes: diffTemplateVersions(versions[index + 1] ?? null, version),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Template versions fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a single version, diffed against another one (the previous version by default)
+router.get('/:id/versions/:version',
+  authenticateToken,
+  [
+    query('compareTo').optional().isInt({ min: 1 }),
+  ],
+  async (req: AuthRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const templateId = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      const compareTo = req.query.compareTo ? parseInt(req.query.compareTo as string) : versionNumber - 1;
+
+      const version = await prisma.templateVersion.findFirst({
+        where: { templateId, version: versionNumber, template: { userId: req.user!.id } },
+      });
+
+      if (!version) {
+        res.status(404).json({ error: 'Template version not found' });
+        return;
+      }
+
+      const base = compareTo >= 1
+        ? await prisma.templateVersion.findUnique({
+            where: { templateId_version: { templateId, version: compareTo } },
+          })
+        : null;
+
+      if (req.query.compareTo && !base) {
+        res.status(404).json({ error: 'Version to compare with not found' });
+        return;
+      }
+
+      res.json({
+        ...version,
+        changes: diffTemplateVersions(base, version),
+      });
+    } catch (error) {
+      console.error('Template version fetch error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Roll back to an earlier version. History is never rewritten: the old content
+// becomes a new version on top.
+router.post('/:id/versions/:version/rollback', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
+  try {
+    const templateId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    const template = await prisma.notificationTemplate.findFirst({
+      where: { id: templateId, userId },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const target = await prisma.templateVersion.findUnique({
+      where: { templateId_version: { templateId, version: parseInt(req.params.version) } },
+    });
+
+    if (!target) {
+      res.status(404).json({ error: 'Template version not found' });
+      return;
+    }
+
+    if (target.version === template.version) {
+      res.status(400).json({ error: 'This is already the current version' });
+      return;
+    }
+
+    const updatedTemplate = await prisma.notificationTemplate.update({
+      where: { id: templateId },
+      data: newVersionData(template, target, userId, `Rolled back to version ${target.version}`),
+    });
+
+    res.json({
+      message: `Template rolled back to version ${target.version}`,
+      template: updatedTemplate,
+    });
+  } catch (error: any) {
+    if (isVersionConflict(error)) {
+      res.status(409).json({ error: 'Template was modified concurrently, please retry' });
+      return;
+    }
+    console.error('Template rollback error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete template
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res: express.Response): Promise<void> => {
   try {
@@ -258,6 +609,10 @@ router.post('/:id/preview',
   authenticateToken,
   [
     body('variables').optional().isObject(),
+    body('locale')
+      .optional()
+      .custom((locale) => !!normalizeLocale(locale))
+      .withMessage('Invalid locale'),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -268,7 +623,7 @@ router.post('/:id/preview',
 
     const templateId = parseInt(req.params.id);
     const userId = req.user!.id;
-    const { variables = {} } = req.body;
+    const { variables = {}, locale } = req.body;
 
     try {
       const template = await prisma.notificationTemplate.findFirst({
@@ -280,24 +635,30 @@ router.post('/:id/preview',
         return;
       }
 
-      // Simple variable replacement
-      let previewContent = template.content;
-      let previewSubject = template.subject;
+      const { values, problems } = validateTemplateVariables(template.variables, variables);
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Invalid template variables', problems });
+        return;
+      }
 
-      Object.keys(variables).forEach(key => {
-        const placeholder = `{{${key}}}`;
-        previewContent = previewContent.replace(new RegExp(placeholder, 'g'), variables[key]);
-        if (previewSubject) {
-          previewSubject = previewSubject.replace(new RegExp(placeholder, 'g'), variables[key]);
-        }
-      });
+      const preview = renderTemplateContent(template, values, { locale });
 
       res.json({
-        content: previewContent,
-        subject: previewSubject,
+        content: preview.message,
+        subject: preview.subject,
         channel: template.channel,
+        // The variant used after fallback; null means the default content
+        locale: preview.locale,
+        availableLocales: Object.keys(parseTemplateLocales(template.locales)),
+        // Read by the template but given no value, so they render as empty text
+        missingVariables: extractTemplateVariables(template).filter((name) => values[name] === undefined),
       });
     } catch (error) {
+      // Templates saved before syntax checking existed may not compile
+      if (error instanceof TemplateSyntaxError) {
+        res.status(400).json({ error: 'Template has syntax errors', problems: [{ message: error.message, line: error.line }] });
+        return;
+      }
       console.error('Template preview error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
@@ -307,10 +668,18 @@ router.post('/:id/preview',
 // Send notification using template
 router.post('/:id/send',
   authenticateToken,
+  idempotency,
   [
     body('to').isString().notEmpty(),
     body('variables').optional().isObject(),
     body('sendAt').optional().isISO8601(),
+    body('priority').optional().isIn(['normal', 'urgent']),
+    body('category').optional().matches(/^[a-z0-9_-]{1,50}$/i),
+    body('track').optional().isBoolean(),
+    body('locale')
+      .optional()
+      .custom((locale) => !!normalizeLocale(locale))
+      .withMessage('Invalid locale'),
   ],
   async (req: AuthRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -321,7 +690,7 @@ router.post('/:id/send',
 
     const templateId = parseInt(req.params.id);
     const userId = req.user!.id;
-    const { to, variables = {}, sendAt } = req.body;
+    const { to, variables = {}, sendAt, priority, category, track } = req.body;
 
     try {
       const template = await prisma.notificationTemplate.findFirst({
@@ -333,67 +702,63 @@ router.post('/:id/send',
         return;
       }
 
-      // Process template content
-      let processedContent = template.content;
-      let processedSubject = template.subject;
+      if (!isValidRecipient(template.channel, to)) {
+        res.status(400).json({ error: 'Invalid recipient for channel' });
+        return;
+      }
 
-      Object.keys(variables).forEach(key => {
-        const placeholder = `{{${key}}}`;
-        processedContent = processedContent.replace(new RegExp(placeholder, 'g'), variables[key]);
-        if (processedSubject) {
-          processedSubject = processedSubject.replace(new RegExp(placeholder, 'g'), variables[key]);
-        }
-      });
+      const { values, problems } = validateTemplateVariables(template.variables, variables);
+      if (problems.length > 0) {
+        res.status(400).json({ error: 'Invalid template variables', problems });
+        return;
+      }
 
-      // Import notification queue
-      const { notificationQueue } = await import('../queue/notificationQueue');
+      // An explicit locale wins over the one the recipient prefers
+      const locale = req.body.locale || await findRecipientLocale(userId, template.channel, to);
+      const rendered = renderTemplateContent(template, values, { locale });
+
+      const input = {
+        userId,
+        to,
+        channel: template.channel,
+        message: rendered.message,
+        messageFormat: rendered.format,
+        subject: rendered.subject,
+        templateId,
+        templateVersion: template.version,
+        locale: rendered.locale,
+        priority,
+        category,
+        trackEngagement: track === true,
+      };
 
       if (sendAt) {
         // Schedule notification
-        await prisma.scheduledNotification.create({
-          data: {
-            userId,
-            to,
-            channel: template.channel,
-            message: processedContent,
-            subject: processedSubject,
-            templateId,
-            sendAt: new Date(sendAt),
-          },
-        });
+        const notification = await scheduleNotification(input, new Date(sendAt));
 
         res.status(202).json({ 
           status: 'scheduled', 
           sendAt,
-          templateUsed: template.name 
+          id: notification.publicId,
+          templateUsed: template.name,
+          templateVersion: template.version,
         });
       } else {
         // Send immediately
-        await notificationQueue.add(
-          'send',
-          {
-            userId,
-            to,
-            channel: template.channel,
-            message: processedContent,
-            subject: processedSubject,
-            templateId,
-          },
-          {
-            attempts: 3,
-            backoff: {
-              type: 'exponential',
-              delay: 10000,
-            },
-          }
-        );
+        const notification = await submitNotification(input);
 
         res.status(202).json({ 
           status: 'queued',
-          templateUsed: template.name 
+          id: notification.publicId,
+          templateUsed: template.name,
+          templateVersion: template.version,
         });
       }
     } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        res.status(400).json({ error: 'Template has syntax errors', problems: [{ message: error.message, line: error.line }] });
+        return;
+      }
       console.error('Template send error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
@@ -0,0 +1,54 @@
+import express from 'express';
+import { verifyTrackingToken, verifyClickUrl, recordEngagement, EngagementType } from '../services/trackingService';
+
+const router = express.Router();
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Recording must never delay or break the recipient's request
+function track(req: express.Request, notificationId: number, type: EngagementType, url?: string) {
+  recordEngagement(notificationId, type, {
+    userAgent: req.get('User-Agent'),
+    ipAddress: req.ip,
+    method: req.method,
+    url,
+  }).catch((error) => {
+    console.error(`Failed to record ${type} for notification ${notificationId}:`, error);
+  });
+}
+
+// Open tracking pixel
+router.get('/open/:token.gif', (req: express.Request, res: express.Response) => {
+  const notificationId = verifyTrackingToken(req.params.token);
+  if (notificationId) {
+    track(req, notificationId, 'open');
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Content-Length': PIXEL.length.toString(),
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    // Webmail clients embed the pixel from their own origin
+    'Cross-Origin-Resource-Policy': 'cross-origin',
+  });
+  res.end(PIXEL);
+});
+
+// Click redirect
+router.get('/click/:token', (req: express.Request, res: express.Response) => {
+  const url = typeof req.query.url === 'string' ? req.query.url : '';
+  const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+  const notificationId = verifyTrackingToken(req.params.token);
+
+  // Only links we rewrote ourselves are followed, so this can't be used as an open redirect
+  if (!notificationId || !/^https?:\/\//i.test(url) || !verifyClickUrl(req.params.token, url, signature)) {
+    res.status(400).json({ error: 'Invalid tracking link' });
+    return;
+  }
+
+  track(req, notificationId, 'click', url);
+  res.redirect(302, url);
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import express from 'express';
+import twilio from 'twilio';
+import { verifyTwilioSignature } from '../middleware/twilioSignature';
+import { applyTwilioStatus } from '../services/deliveryReceiptService';
+import { handleInboundSms } from '../services/inboundSmsService';
+
+const router = express.Router();
+
+// Twilio posts form-encoded parameters
+router.use(express.urlencoded({ extended: false }));
+
+// Message status callback, set as statusCallback on every SMS we send
+router.post('/status', verifyTwilioSignature, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { MessageSid, MessageStatus, ErrorCode, ErrorMessage, RawDlrDoneDate } = req.body;
+
+  if (!MessageSid || !MessageStatus) {
+    res.status(400).json({ error: 'MessageSid and MessageStatus are required' });
+    return;
+  }
+
+  try {
+    const applied = await applyTwilioStatus({
+      messageSid: MessageSid,
+      status: MessageStatus,
+      errorCode: ErrorCode || undefined,
+      errorMessage: ErrorMessage || undefined,
+      rawDlrDoneDate: RawDlrDoneDate || undefined,
+    });
+
+    if (applied) {
+      console.log(`📬 Twilio status for ${MessageSid}: ${MessageStatus}${ErrorCode ? ` (error ${ErrorCode})` : ''}`);
+    }
+
+    // Unknown or stale reports are acknowledged too, otherwise Twilio keeps retrying them
+    res.status(204).end();
+  } catch (error) {
+    console.error('Twilio status callback error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Incoming SMS, configured as the messaging webhook of our Twilio number. Answers with
+// TwiML, which carries the HELP auto-reply when there is one.
+router.post('/inbound', verifyTwilioSignature, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { MessageSid, From, To, Body } = req.body;
+
+  if (!MessageSid || !From) {
+    res.status(400).json({ error: 'MessageSid and From are required' });
+    return;
+  }
+
+  try {
+    const { keyword, reply } = await handleInboundSms({
+      messageSid: MessageSid,
+      from: From,
+      to: To || '',
+      body: Body || '',
+    });
+
+    console.log(`📥 Inbound SMS from ${From}${keyword ? ` (${keyword.toUpperCase()})` : ''}`);
+
+    const twiml = new twilio.twiml.MessagingResponse();
+    if (reply) {
+      twiml.message(reply);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  } catch (error) {
+    console.error('Twilio inbound message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
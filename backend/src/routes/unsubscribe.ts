@@ -0,0 +1,64 @@
+import express from 'express';
+import { verifyRecipientToken } from '../utils/recipientLinks';
+import { unsubscribeRecipient } from '../services/suppressionService';
+
+const router = express.Router();
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function page(title: string, content: string) {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; padding: 0 20px; color: #333;">
+    <h1 style="font-size: 22px;">${title}</h1>
+    ${content}
+  </body>
+</html>`;
+}
+
+const INVALID_LINK = page('Link expired', '<p>This unsubscribe link is invalid or has expired.</p>');
+
+// Confirmation page for the footer link. Unsubscribing only happens on POST, so link
+// scanners that fetch every URL in a message can't unsubscribe anyone.
+router.get('/:token', (req: express.Request, res: express.Response) => {
+  const link = verifyRecipientToken(req.params.token, 'unsubscribe');
+
+  if (!link) {
+    res.status(400).send(INVALID_LINK);
+    return;
+  }
+
+  const what = link.category ? `"${escapeHtml(link.category)}" emails` : 'these emails';
+  res.send(page('Unsubscribe', `
+    <p>Stop sending ${what} to <strong>${escapeHtml(link.recipient)}</strong>?</p>
+    <form method="post">
+      <button type="submit" style="padding: 10px 20px; font-size: 15px;">Unsubscribe</button>
+    </form>`));
+});
+
+// RFC 8058 one-click unsubscribe (mail clients post List-Unsubscribe=One-Click) and the
+// confirmation page's form. The signed token alone identifies the recipient.
+router.post('/:token', async (req: express.Request, res: express.Response): Promise<void> => {
+  const link = verifyRecipientToken(req.params.token, 'unsubscribe');
+
+  if (!link) {
+    res.status(400).send(INVALID_LINK);
+    return;
+  }
+
+  try {
+    const result = await unsubscribeRecipient(link);
+    console.log(`🚫 ${link.recipient} unsubscribed from ${result.scope === 'category' ? `category ${result.category}` : 'email'} for user ${link.ownerId}`);
+
+    const what = link.category ? `"${escapeHtml(link.category)}" emails` : 'these emails';
+    res.send(page('Unsubscribed', `<p>${escapeHtml(link.recipient)} will no longer receive ${what}.</p>`));
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    res.status(500).send(page('Something went wrong', '<p>We could not process your request. Please try again later.</p>'));
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import os from "os";
+import crypto from "crypto";
+import { redisConnection } from "../utils/redis";
+
+// Only one API instance runs the scheduler, campaign, cleanup and health crons. The
+// leader holds a Redis key with a short lease and keeps renewing it; if it dies the
+// key expires and another instance takes over on its next tick.
+const LEADER_KEY = "scheduler:leader";
+const LEASE_MS = parseInt(process.env.LEADER_LEASE_MS || "30000");
+const RENEW_INTERVAL_MS = Math.floor(LEASE_MS / 3);
+
+export const instanceId =
+  process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString("hex")}`;
+
+// Only extend or release the lease if we still own it
+const RENEW_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+let leader = false;
+let leaseExpiresAt = 0;
+let electedAt: Date | null = null;
+let timer: NodeJS.Timeout | null = null;
+let onElected: (() => void) | null = null;
+
+export function isLeader() {
+  // A leader that couldn't renew in time must assume someone else took over
+  return leader && Date.now() < leaseExpiresAt;
+}
+
+function becomeFollower(reason: string) {
+  if (!leader) return;
+
+  leader = false;
+  electedAt = null;
+  console.warn(`👥 Instance ${instanceId} is no longer the scheduler leader (${reason})`);
+}
+
+async function tick() {
+  try {
+    const now = Date.now();
+
+    if (leader) {
+      const renewed = await redisConnection.eval(RENEW_SCRIPT, 1, LEADER_KEY, instanceId, LEASE_MS);
+      if (renewed === 1) {
+        leaseExpiresAt = now + LEASE_MS;
+      } else {
+        becomeFollower("lease lost");
+      }
+      return;
+    }
+
+    const acquired = await redisConnection.set(LEADER_KEY, instanceId, "PX", LEASE_MS, "NX");
+    if (acquired === "OK") {
+      leader = true;
+      leaseExpiresAt = now + LEASE_MS;
+      electedAt = new Date();
+      console.log(`👑 Instance ${instanceId} elected scheduler leader`);
+      onElected?.();
+    }
+  } catch (error) {
+    console.error("❌ Leader election error:", error);
+    if (leader && Date.now() >= leaseExpiresAt) {
+      becomeFollower("lease expired while Redis was unreachable");
+    }
+  }
+}
+
+// `elected` runs every time this instance (re)gains leadership, e.g. to catch up on
+// work a previous leader may have left unfinished
+export function startLeaderElection(elected?: () => void) {
+  if (timer) return;
+
+  onElected = elected ?? null;
+  tick();
+  timer = setInterval(tick, RENEW_INTERVAL_MS);
+}
+
+// Releases the lease so another instance can take over immediately instead of
+// waiting for it to expire
+export async function stopLeaderElection() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  if (leader) {
+    leader = false;
+    try {
+      await redisConnection.eval(RELEASE_SCRIPT, 1, LEADER_KEY, instanceId);
+      console.log(`👋 Instance ${instanceId} released scheduler leadership`);
+    } catch (error) {
+      console.error("Failed to release scheduler leadership:", error);
+    }
+  }
+}
+
+// Wraps a cron callback so it only runs on the leader
+export function leaderOnly(task: () => Promise<void>) {
+  return async () => {
+    if (!isLeader()) return;
+    await task();
+  };
+}
+
+export async function getLeaderInfo() {
+  const [leaderId, ttlMs] = await Promise.all([
+    redisConnection.get(LEADER_KEY),
+    redisConnection.pttl(LEADER_KEY),
+  ]);
+
+  return {
+    leaderId,
+    leaseRemainingMs: ttlMs > 0 ? ttlMs : null,
+    leaseMs: LEASE_MS,
+    instanceId,
+    isLeader: isLeader(),
+    electedAt,
+  };
+}
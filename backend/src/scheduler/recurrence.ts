@@ -0,0 +1,127 @@
+import { CronExpressionParser } from "cron-parser";
+import { RRule } from "rrule";
+
+export type RecurrenceType = "cron" | "rrule";
+
+export interface RecurrenceRule {
+  scheduleType: string;
+  expression: string;
+  timezone: string;
+  startAt: Date;
+  endAt?: Date | null;
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time of `date` in `timezone`, expressed as a UTC date. RRULEs are
+// evaluated in this "floating" form so results don't depend on the server's timezone.
+export function toWallClock(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+
+  return new Date(
+    Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  );
+}
+
+// Inverse of toWallClock. The offset is re-checked once so times next to a DST
+// change resolve to the right side of it.
+export function fromWallClock(wallClock: Date, timezone: string) {
+  const guess = wallClock.getTime();
+  const offset = toWallClock(new Date(guess), timezone).getTime() - guess;
+  const candidate = guess - offset;
+  const correctedOffset = toWallClock(new Date(candidate), timezone).getTime() - candidate;
+
+  return new Date(guess - correctedOffset);
+}
+
+function buildRRule(expression: string, timezone: string, startAt: Date) {
+  const options = RRule.parseString(expression.trim().replace(/^RRULE:/i, ""));
+
+  return new RRule({
+    ...options,
+    dtstart: toWallClock(startAt, timezone),
+    until: options.until ? toWallClock(options.until, timezone) : null,
+    tzid: null,
+  });
+}
+
+// Returns an error message, or null when the rule can be evaluated
+export function validateRecurrence(scheduleType: string, expression: string, timezone: string): string | null {
+  if (!isValidTimezone(timezone)) {
+    return `Unknown timezone: ${timezone}`;
+  }
+
+  try {
+    if (scheduleType === "cron") {
+      CronExpressionParser.parse(expression, { tz: timezone });
+    } else if (scheduleType === "rrule") {
+      const options = RRule.parseString(expression.trim().replace(/^RRULE:/i, ""));
+      if (options.freq === undefined) {
+        return "RRULE must specify FREQ";
+      }
+    } else {
+      return `Unknown schedule type: ${scheduleType}`;
+    }
+  } catch (error: any) {
+    return `Invalid ${scheduleType} expression: ${error.message}`;
+  }
+
+  return null;
+}
+
+// First occurrence strictly after `after` (and not before startAt), or null once the rule is exhausted
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  // Occurrences at exactly startAt count, so look from just before it
+  const from = after < rule.startAt ? new Date(rule.startAt.getTime() - 1) : after;
+  let next: Date | null = null;
+
+  if (rule.scheduleType === "cron") {
+    const expression = CronExpressionParser.parse(rule.expression, {
+      currentDate: from,
+      tz: rule.timezone,
+    });
+    next = expression.next().toDate();
+  } else {
+    const wallClock = buildRRule(rule.expression, rule.timezone, rule.startAt)
+      .after(toWallClock(from, rule.timezone), false);
+    next = wallClock ? fromWallClock(wallClock, rule.timezone) : null;
+  }
+
+  if (!next || (rule.endAt && next > rule.endAt)) {
+    return null;
+  }
+
+  return next;
+}
+
+export function upcomingOccurrences(rule: RecurrenceRule, after: Date, count: number): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = after;
+
+  while (occurrences.length < count) {
+    const next = nextOccurrence(rule, cursor);
+    if (!next) break;
+
+    occurrences.push(next);
+    cursor = next;
+  }
+
+  return occurrences;
+}
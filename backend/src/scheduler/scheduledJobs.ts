@@ -0,0 +1,47 @@
+import { notificationQueue, notificationJobOptions } from "../queue/notificationQueue";
+
+// Scheduled notifications are BullMQ delayed jobs keyed by the ScheduledNotification id,
+// so adding the same schedule twice never produces a second send
+export function scheduledJobId(scheduledId: number) {
+  return `scheduled-${scheduledId}`;
+}
+
+function delayUntil(sendAt: Date) {
+  return Math.max(sendAt.getTime() - Date.now(), 0);
+}
+
+// Creates the delayed job, or brings an existing one in line with the given data and send time
+export async function syncScheduledJob(scheduledId: number, data: Record<string, any>, sendAt: Date) {
+  const jobId = scheduledJobId(scheduledId);
+  const existing = await notificationQueue.getJob(jobId);
+
+  if (existing && (await existing.getState()) === "delayed") {
+    await existing.updateData({ ...data, scheduledNotificationId: scheduledId });
+    await existing.changeDelay(delayUntil(sendAt));
+    return existing;
+  }
+
+  return notificationQueue.add(
+    "send",
+    { ...data, scheduledNotificationId: scheduledId },
+    {
+      ...notificationJobOptions,
+      jobId,
+      delay: delayUntil(sendAt),
+    }
+  );
+}
+
+// True while the job has not started firing, i.e. it can still be edited or cancelled
+export async function isScheduledJobPending(scheduledId: number) {
+  const job = await notificationQueue.getJob(scheduledJobId(scheduledId));
+  if (!job) return true;
+  return (await job.getState()) === "delayed";
+}
+
+export async function removeScheduledJob(scheduledId: number) {
+  const job = await notificationQueue.getJob(scheduledJobId(scheduledId));
+  if (job && (await job.getState()) === "delayed") {
+    await job.remove();
+  }
+}
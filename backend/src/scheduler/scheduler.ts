@@ -1,95 +1,69 @@
 import cron from "node-cron";
 import { PrismaClient } from "@prisma/client";
-import { notificationQueue } from "../queue/notificationQueue";
+import { ensureScheduledNotificationRecord, buildJobData } from "../services/notificationService";
+import { syncScheduledJob, isScheduledJobPending } from "./scheduledJobs";
+import { refreshCampaignStats } from "../services/campaignService";
+import { reconcileRecurringSeries } from "../services/recurringService";
+import { startLeaderElection, leaderOnly } from "./leaderElection";
 
 const prisma = new PrismaClient();
 
-export function startScheduler() {
-  console.log('📅 Scheduler started - checking for due notifications every minute');
-  
-  // Check for due notifications every minute
-  cron.schedule("* * * * *", async () => {
+// Makes sure every pending ScheduledNotification has a delayed job. Jobs are keyed by
+// the schedule id, so this is safe to run on every startup and never double-sends.
+export async function reconcileScheduledJobs() {
+  const pending = await prisma.scheduledNotification.findMany({
+    where: { status: "pending" },
+  });
+
+  let synced = 0;
+  for (const scheduled of pending) {
     try {
-      const now = new Date();
+      if (!(await isScheduledJobPending(scheduled.id))) {
+        // Already firing; the worker will settle the row's status
+        continue;
+      }
 
-      const dueNotifications = await prisma.scheduledNotification.findMany({
-        where: {
-          sendAt: { lte: now },
-          status: "pending",
-        },
-        include: {
-          user: {
-            select: { id: true, name: true, email: true },
-          },
-          template: {
-            select: { id: true, name: true },
-          },
-          campaign: {
-            select: { id: true, name: true },
-          },
-        },
-      });
+      const notification = await ensureScheduledNotificationRecord(scheduled);
+      await syncScheduledJob(scheduled.id, buildJobData(notification), scheduled.sendAt);
+      synced++;
+    } catch (error) {
+      console.error(`❌ Failed to reconcile scheduled notification ${scheduled.id}:`, error);
+    }
+  }
 
-      if (dueNotifications.length > 0) {
-        console.log(`📅 Found ${dueNotifications.length} due notifications to process`);
-      }
+  console.log(`📅 Reconciled ${synced} pending scheduled notifications with the queue`);
+}
 
-      for (const notif of dueNotifications) {
-        try {
-          // Add to queue with retry options
-          await notificationQueue.add(
-            "send",
-            {
-              userId: notif.userId,
-              to: notif.to,
-              channel: notif.channel,
-              message: notif.message,
-              subject: notif.subject,
-              templateId: notif.templateId,
-              campaignId: notif.campaignId,
-              metadata: notif.metadata,
-            },
-            {
-              attempts: 3,
-              backoff: {
-                type: "exponential",
-                delay: 10000,
-              },
-            }
-          );
+// Every instance registers the crons, but they only do work on the elected leader
+export function startScheduler() {
+  console.log('📅 Scheduler started - scheduled notifications are sent as delayed queue jobs');
 
-          // Mark as queued
-          await prisma.scheduledNotification.update({
-            where: { id: notif.id },
-            data: { status: "queued" },
-          });
+  startLeaderElection(() => {
+    reconcileScheduledJobs()
+      .then(() => reconcileRecurringSeries())
+      .catch((error) => {
+        console.error('❌ Scheduled notification reconciliation error:', error);
+      });
+  });
 
-          console.log(`📅 Scheduled notification ${notif.id} queued for ${notif.to} (${notif.channel})`);
-          
-        } catch (error) {
-          console.error(`❌ Failed to queue scheduled notification ${notif.id}:`, error);
-          
-          // Mark as failed
-          await prisma.scheduledNotification.update({
-            where: { id: notif.id },
-            data: { status: "failed" },
-          });
-        }
-      }
+  // Top up recurring series that lost their pending occurrence every 5 minutes
+  cron.schedule("*/5 * * * *", leaderOnly(async () => {
+    try {
+      await reconcileRecurringSeries();
     } catch (error) {
-      console.error('❌ Scheduler error:', error);
+      console.error('❌ Recurring notification reconciliation error:', error);
     }
-  });
-
+  }));
+  
   // Check for completed campaigns every 5 minutes
-  cron.schedule("*/5 * * * *", async () => {
+  cron.schedule("*/5 * * * *", leaderOnly(async () => {
     try {
       const runningCampaigns = await prisma.notificationCampaign.findMany({
         where: { status: "running" },
         include: {
           _count: {
             select: {
-              notificationLogs: true,
+              notifications: true,
               scheduledNotifications: {
                 where: { status: { in: ["pending", "queued"] } },
               },
@@ -99,11 +73,12 @@ export function startScheduler() {
       });
 
       for (const campaign of runningCampaigns) {
-        // Check if all notifications for this campaign are processed
-        const pendingCount = campaign._count.scheduledNotifications;
-        const totalSent = campaign.successCount + campaign.failureCount;
+        // A campaign is complete once every recipient's notification reached a final state
+        const outcomes = await refreshCampaignStats(campaign.id);
+        const pendingCount = campaign._count.scheduledNotifications + outcomes.inFlight;
+        const allRecipientsSubmitted = campaign._count.notifications >= campaign.totalRecipients;
         
-        if (pendingCount === 0 && totalSent >= campaign.totalRecipients) {
+        if (pendingCount === 0 && allRecipientsSubmitted) {
           await prisma.notificationCampaign.update({
             where: { id: campaign.id },
             data: {
@@ -112,16 +87,16 @@ export function startScheduler() {
             },
           });
           
-          console.log(`🎯 Campaign "${campaign.name}" completed: ${campaign.successCount} successful, ${campaign.failureCount} failed`);
+          console.log(`🎯 Campaign "${campaign.name}" completed: ${outcomes.delivered} successful, ${outcomes.failed} failed`);
         }
       }
     } catch (error) {
       console.error('❌ Campaign completion check error:', error);
     }
-  });
+  }));
 
   // Cleanup old logs every day at 2 AM
-  cron.schedule("0 2 * * *", async () => {
+  cron.schedule("0 2 * * *", leaderOnly(async () => {
     try {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -138,7 +113,7 @@ export function startScheduler() {
       const deletedScheduled = await prisma.scheduledNotification.deleteMany({
         where: {
           createdAt: { lt: thirtyDaysAgo },
-          status: { in: ["sent", "failed", "cancelled"] },
+          status: { in: ["sent", "failed", "cancelled", "skipped"] },
         },
       });
 
@@ -146,5 +121,5 @@ export function startScheduler() {
     } catch (error) {
       console.error('❌ Cleanup error:', error);
     }
-  });
+  }));
 }
@@ -0,0 +1,77 @@
+// Posts signed Twilio webhook requests to a locally running API, for trying out
+// delivery receipts and inbound SMS without a real Twilio account or a public URL.
+//
+//   npm run twilio:fake -- status <MessageSid> <status> [errorCode]
+//   npm run twilio:fake -- inbound <from> <body...>
+import dotenv from 'dotenv';
+dotenv.config();
+
+import crypto from 'crypto';
+import twilio from 'twilio';
+import { publicApiUrl } from '../utils/recipientLinks';
+
+async function post(path: string, params: Record<string, string>) {
+  const url = `${publicApiUrl()}${path}`;
+  const signature = twilio.getExpectedTwilioSignature(process.env.TWILIO_AUTH_TOKEN!, url, params);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': signature,
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  const text = await response.text();
+  if (text) {
+    console.log(text);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!process.env.TWILIO_AUTH_TOKEN) {
+    throw new Error('TWILIO_AUTH_TOKEN must be set to sign requests');
+  }
+
+  if (command === 'status' && args.length >= 2) {
+    const [messageSid, status, errorCode] = args;
+    await post('/api/webhooks/twilio/status', {
+      MessageSid: messageSid,
+      MessageStatus: status,
+      AccountSid: process.env.TWILIO_ACCOUNT_SID || '',
+      ...(errorCode && { ErrorCode: errorCode }),
+      ...(status === 'delivered' && { RawDlrDoneDate: formatDlrDate(new Date()) }),
+    });
+    return;
+  }
+
+  if (command === 'inbound' && args.length >= 2) {
+    const [from, ...words] = args;
+    await post('/api/webhooks/twilio/inbound', {
+      MessageSid: `SM${crypto.randomBytes(16).toString('hex')}`,
+      From: from,
+      To: process.env.TWILIO_PHONE || '',
+      Body: words.join(' '),
+      AccountSid: process.env.TWILIO_ACCOUNT_SID || '',
+    });
+    return;
+  }
+
+  console.log('Usage: npm run twilio:fake -- status <MessageSid> <status> [errorCode]');
+  console.log('       npm run twilio:fake -- inbound <from> <body...>');
+  process.exitCode = 1;
+}
+
+// YYMMDDhhmm in UTC, as carriers report it
+function formatDlrDate(date: Date) {
+  return date.toISOString().replace(/\D/g, '').slice(2, 12);
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exitCode = 1;
+});
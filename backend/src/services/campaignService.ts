@@ -0,0 +1,61 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface CampaignOutcomes {
+  delivered: number;
+  sent: number; // accepted by the provider, delivery receipt not in yet
+  failed: number; // includes expired
+  cancelled: number;
+  skipped: number; // recipient opted out
+  inFlight: number; // accepted, scheduled, queued or sending
+  statusBreakdown: Record<string, number>;
+}
+
+// Counts recipients by the final state of their notification, so a recipient that
+// failed twice and then succeeded counts once, as delivered
+export async function getCampaignOutcomes(campaignId: number): Promise<CampaignOutcomes> {
+  const groups = await prisma.notification.groupBy({
+    by: ['status'],
+    where: { campaignId },
+    _count: { id: true },
+  });
+
+  const statusBreakdown = groups.reduce((acc, group) => {
+    acc[group.status] = group._count.id;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const delivered = statusBreakdown['delivered'] || 0;
+  const sent = statusBreakdown['sent'] || 0;
+  const failed = (statusBreakdown['failed'] || 0) + (statusBreakdown['expired'] || 0);
+  const cancelled = statusBreakdown['cancelled'] || 0;
+  const skipped = statusBreakdown['skipped'] || 0;
+  const total = Object.values(statusBreakdown).reduce((sum, count) => sum + count, 0);
+
+  return {
+    delivered,
+    sent,
+    failed,
+    cancelled,
+    skipped,
+    inFlight: total - delivered - sent - failed - cancelled - skipped,
+    statusBreakdown,
+  };
+}
+
+// Recomputes successCount/failureCount from recipient outcomes rather than incrementing
+// per attempt, which keeps the counters correct across retries and dead-letter replays
+export async function refreshCampaignStats(campaignId: number) {
+  const outcomes = await getCampaignOutcomes(campaignId);
+
+  await prisma.notificationCampaign.update({
+    where: { id: campaignId },
+    data: {
+      successCount: outcomes.delivered,
+      failureCount: outcomes.failed,
+    },
+  });
+
+  return outcomes;
+}
@@ -0,0 +1,104 @@
+import { Job } from 'bullmq';
+import { PrismaClient, DeadLetterNotification } from '@prisma/client';
+import { notificationQueue, notificationJobOptions } from '../queue/notificationQueue';
+import { markRequeued, markFailed } from './notificationService';
+import { ErrorKind } from '../channels/types';
+
+const prisma = new PrismaClient();
+
+// A type alias rather than an interface so it's assignable to Prisma's JSON input type
+export type AttemptRecord = {
+  attempt: number;
+  error: string;
+  errorType?: ErrorKind;
+  failedAt: string;
+};
+
+// Written to the BullMQ job log by the worker after every failed attempt
+export async function recordFailedAttempt(job: Job, error: string, errorType?: ErrorKind) {
+  const entry: AttemptRecord = {
+    attempt: job.attemptsMade + 1,
+    error,
+    errorType,
+    failedAt: new Date().toISOString(),
+  };
+  await job.log(JSON.stringify(entry));
+}
+
+async function getAttemptHistory(job: Job): Promise<AttemptRecord[]> {
+  const { logs } = await notificationQueue.getJobLogs(job.id!);
+  const history: AttemptRecord[] = [];
+  for (const line of logs) {
+    try {
+      history.push(JSON.parse(line));
+    } catch {
+      // Ignore free-form log lines
+    }
+  }
+  return history;
+}
+
+// Called once a job has no attempts left; the BullMQ job is removed afterwards
+// so the dead-letter table is the single place to inspect and replay it
+export async function moveToDeadLetter(job: Job, error: Error) {
+  const { userId, to, channel, campaignId } = job.data;
+
+  const entry = await prisma.deadLetterNotification.create({
+    data: {
+      userId: userId ?? null,
+      jobId: job.id!,
+      to,
+      channel,
+      campaignId: campaignId ?? null,
+      payload: job.data,
+      error: error.message,
+      attempts: await getAttemptHistory(job),
+      attemptsMade: job.attemptsMade,
+    },
+  });
+
+  await job.remove().catch((removeError) => {
+    console.error(`Failed to remove dead-lettered job ${job.id}:`, removeError);
+  });
+
+  return entry;
+}
+
+// Returns null when the entry was already replayed, e.g. by an overlapping request
+export async function replayDeadLetter(entry: DeadLetterNotification) {
+  // Claimed before enqueueing so concurrent replays send the payload only once
+  const { count } = await prisma.deadLetterNotification.updateMany({
+    where: { id: entry.id, status: 'dead' },
+    data: { status: 'replayed', replayedAt: new Date() },
+  });
+  if (count !== 1) {
+    return null;
+  }
+
+  // Start the replay with a fresh rate-limit budget
+  const { rateLimitDeferrals, ...payload } = entry.payload as Record<string, any>;
+
+  try {
+    // Requeued before the job exists, so the worker never finds it still failed
+    if (payload.notificationId) {
+      await markRequeued(payload.notificationId);
+    }
+
+    const job = await notificationQueue.add('send', payload, notificationJobOptions);
+
+    return prisma.deadLetterNotification.update({
+      where: { id: entry.id },
+      data: { replayJobId: job.id },
+    });
+  } catch (error) {
+    // Release the entry so it can be replayed again
+    if (payload.notificationId) {
+      await markFailed(payload.notificationId, entry.error).catch(() => undefined);
+    }
+    await prisma.deadLetterNotification.update({
+      where: { id: entry.id },
+      data: { status: 'dead', replayedAt: null },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { PrismaClient } from '@prisma/client';
+import { markDelivered, markFailed } from './notificationService';
+
+const prisma = new PrismaClient();
+
+// Twilio message statuses in the order a message moves through them. Callbacks can
+// arrive out of order or twice, so a status never replaces one that is further along
+// and a final status is never replaced.
+const TWILIO_STATUS_RANK: Record<string, number> = {
+  accepted: 0,
+  scheduled: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  undelivered: 4,
+  failed: 4,
+};
+
+const FINAL_RANK = 4;
+const FAILED_STATUSES = ['undelivered', 'failed'];
+
+export interface TwilioStatusReport {
+  messageSid: string;
+  status: string;
+  errorCode?: string;
+  errorMessage?: string;
+  rawDlrDoneDate?: string; // Carrier delivery time, YYMMDDhhmm in UTC, when the carrier reports it
+}
+
+// Carrier receipts carry the actual delivery time; the callback itself can lag behind it
+export function parseDlrDoneDate(value?: string): Date | null {
+  const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?$/.exec(value || '');
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '00'] = match;
+  const date = new Date(Date.UTC(2000 + Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  // Clock skew between carrier and us must not put delivery in the future
+  return isNaN(date.getTime()) ? null : new Date(Math.min(date.getTime(), Date.now()));
+}
+
+// Applies a Twilio status callback to the attempt that sent the message and to its notification.
+// Returns false when the message is unknown or the report is stale.
+export async function applyTwilioStatus(report: TwilioStatusReport): Promise<boolean> {
+  const status = report.status.toLowerCase();
+  const rank = TWILIO_STATUS_RANK[status];
+
+  if (rank === undefined) {
+    return false;
+  }
+
+  const log = await prisma.notificationLog.findFirst({
+    where: { providerMessageId: report.messageSid, channel: 'sms' },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!log) {
+    return false;
+  }
+
+  const currentRank = log.providerStatus ? TWILIO_STATUS_RANK[log.providerStatus] ?? -1 : -1;
+  if (currentRank > rank || currentRank === FINAL_RANK) {
+    return false;
+  }
+
+  const failed = FAILED_STATUSES.includes(status);
+  const deliveredAt = status === 'delivered' ? parseDlrDoneDate(report.rawDlrDoneDate) || new Date() : null;
+  const error = failed
+    ? `Twilio reported ${status}${report.errorCode ? ` (error ${report.errorCode})` : ''}${report.errorMessage ? `: ${report.errorMessage}` : ''}`
+    : null;
+
+  await prisma.notificationLog.update({
+    where: { id: log.id },
+    data: {
+      providerStatus: status,
+      ...(report.errorCode && { errorCode: report.errorCode }),
+      ...(deliveredAt && { deliveredAt }),
+      ...(failed && { status: 'failed', error }),
+    },
+  });
+
+  if (log.notificationId) {
+    if (deliveredAt) {
+      await markDelivered(log.notificationId, deliveredAt);
+    } else if (failed) {
+      await markFailed(log.notificationId, error!);
+    }
+  }
+
+  return true;
+}
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { addEmailTracking } from './trackingService';
 
 dotenv.config();
 
@@ -22,26 +23,89 @@ transporter.verify((error, success) => {
   }
 });
 
-export async function sendEmail(to: string, message: string, subject?: string) {
+// Marks where the unsubscribe link goes in the wrapper's footer
+const UNSUBSCRIBE_SLOT = '<!-- unsubscribe -->';
+
+export function renderEmailHtml(message: string): string {
+  return `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; text-align: center;">
+      <h1 style="color: white; margin: 0;">Dheenotifications</h1>
+    </div>
+    <div style="padding: 20px; background: #f9f9f9;">
+      <div style="background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+        ${message.split('\n').map(line => `<p style="margin: 10px 0;">${line}</p>`).join('')}
+      </div>
+    </div>
+    <div style="padding: 20px; text-align: center; color: #666; font-size: 12px;">
+      <p>Powered by Dheenotifications - Professional Notification Service</p>
+      ${UNSUBSCRIBE_SLOT}
+    </div>
+  </div>`;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', nbsp: ' ' };
+
+// Plain-text alternative of an email message. Messages are HTML fragments (templates
+// escape variable values in them), so tags are dropped and entities decoded.
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+// Puts the unsubscribe link in the wrapper's footer, or at the end of custom HTML without one
+export function addUnsubscribeFooter(html: string, unsubscribeUrl: string): string {
+  const footer = `<p><a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe</a> from these emails</p>`;
+
+  if (html.includes(UNSUBSCRIBE_SLOT)) {
+    return html.replace(UNSUBSCRIBE_SLOT, footer);
+  }
+  return html.includes('</body>') ? html.replace('</body>', `${footer}</body>`) : `${html}${footer}`;
+}
+
+export async function verifyEmailTransport() {
+  return transporter.verify();
+}
+
+export interface SendEmailOptions {
+  trackingId?: number; // Notification id; adds an open pixel and click-tracked links when set
+  unsubscribeUrl?: string; // Adds RFC 8058 one-click List-Unsubscribe headers and a footer link
+}
+
+export async function sendEmail(
+  to: string,
+  message: string,
+  subject?: string | null,
+  html?: string,
+  options: SendEmailOptions = {}
+) {
   try {
+    let body = html || renderEmailHtml(message);
+    let text = message;
+    const headers: Record<string, string> = {};
+
+    if (options.unsubscribeUrl) {
+      body = addUnsubscribeFooter(body, options.unsubscribeUrl);
+      text = `${message}\n\nUnsubscribe: ${options.unsubscribeUrl}`;
+      headers['List-Unsubscribe'] = `<${options.unsubscribeUrl}>`;
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+    }
+
+    // Tracking goes last so it sees the final markup; it leaves our own links alone
     const info = await transporter.sendMail({
       from: `"Dheenotifications" <${process.env.SMTP_USER}>`,
       to,
       subject: subject || 'Notification',
-      text: message,
-      html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; text-align: center;">
-          <h1 style="color: white; margin: 0;">Dheenotifications</h1>
-        </div>
-        <div style="padding: 20px; background: #f9f9f9;">
-          <div style="background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-            ${message.split('\n').map(line => `<p style="margin: 10px 0;">${line}</p>`).join('')}
-          </div>
-        </div>
-        <div style="padding: 20px; text-align: center; color: #666; font-size: 12px;">
-          <p>Powered by Dheenotifications - Professional Notification Service</p>
-        </div>
-      </div>`,
+      text,
+      html: options.trackingId ? addEmailTracking(body, options.trackingId) : body,
+      headers,
     });
 
     console.log(`📧 Email sent to ${to}: ${info.messageId}`);
@@ -1,7 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { redisConnection } from '../utils/redis';
-import nodemailer from 'nodemailer';
-import twilio from 'twilio';
+import { getChannel, getChannelNames, HealthCheckResult } from '../channels';
 
 const prisma = new PrismaClient();
 
@@ -15,7 +14,7 @@ export class HealthService {
     return HealthService.instance;
   }
 
-  async checkDatabaseHealth(): Promise<{ status: string; responseTime: number; error?: string }> {
+  async checkDatabaseHealth(): Promise<HealthCheckResult> {
     const startTime = Date.now();
     try {
       await prisma.$queryRaw`SELECT 1`;
@@ -31,7 +30,7 @@ export class HealthService {
     }
   }
 
-  async checkRedisHealth(): Promise<{ status: string; responseTime: number; error?: string }> {
+  async checkRedisHealth(): Promise<HealthCheckResult> {
     const startTime = Date.now();
     try {
       await redisConnection.ping();
@@ -47,60 +46,26 @@ export class HealthService {
     }
   }
 
-  async checkEmailHealth(): Promise<{ status: string; responseTime: number; error?: string }> {
-    const startTime = Date.now();
-    try {
-      const transporter = nodemailer.createTransporter({
-        host: process.env.SMTP_HOST,
-        port: Number(process.env.SMTP_PORT),
-        secure: Number(process.env.SMTP_PORT) === 465,
-        auth: {
-          user: process.env.SMTP_USER,
-          pass: process.env.SMTP_PASS,
-        },
-      });
-
-      await transporter.verify();
-      const responseTime = Date.now() - startTime;
-      return { status: 'healthy', responseTime };
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
-      return { 
-        status: 'down', 
-        responseTime, 
-        error: error.message 
-      };
+  async checkChannelHealth(channel: string): Promise<HealthCheckResult> {
+    const provider = getChannel(channel);
+    if (!provider) {
+      return { status: 'down', responseTime: 0, error: `Unknown channel: ${channel}` };
     }
+    return provider.checkHealth();
   }
 
-  async checkSmsHealth(): Promise<{ status: string; responseTime: number; error?: string }> {
-    const startTime = Date.now();
-    try {
-      const client = twilio(
-        process.env.TWILIO_ACCOUNT_SID!,
-        process.env.TWILIO_AUTH_TOKEN!
-      );
-
-      // Just check if we can authenticate with Twilio
-      await client.api.accounts(process.env.TWILIO_ACCOUNT_SID!).fetch();
-      const responseTime = Date.now() - startTime;
-      return { status: 'healthy', responseTime };
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
-      return { 
-        status: 'down', 
-        responseTime, 
-        error: error.message 
-      };
-    }
+  getMonitoredServices(): string[] {
+    return ['database', 'redis', ...getChannelNames()];
   }
 
   async performHealthCheck(): Promise<void> {
     const checks = [
       { service: 'database', check: () => this.checkDatabaseHealth() },
       { service: 'redis', check: () => this.checkRedisHealth() },
-      { service: 'email', check: () => this.checkEmailHealth() },
-      { service: 'sms', check: () => this.checkSmsHealth() },
+      ...getChannelNames().map(channel => ({
+        service: channel,
+        check: () => this.checkChannelHealth(channel),
+      })),
     ];
 
     for (const { service, check } of checks) {
@@ -130,7 +95,7 @@ export class HealthService {
 
   async getSystemStatus(): Promise<Record<string, any>> {
     // Get latest health check for each service
-    const services = ['database', 'redis', 'email', 'sms'];
+    const services = this.getMonitoredServices();
     const status: Record<string, any> = {};
 
     for (const service of services) {
@@ -147,7 +112,7 @@ export class HealthService {
 
   async cleanupOldHealthRecords(): Promise<void> {
     // Keep only last 1000 records per service
-    const services = ['database', 'redis', 'email', 'sms'];
+    const services = this.getMonitoredServices();
     
     for (const service of services) {
       const records = await prisma.systemHealth.findMany({
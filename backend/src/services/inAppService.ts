@@ -1,13 +1,127 @@
 import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { redisConnection } from '../utils/redis';
+
+// In-app deliveries are published over Redis so that any process (including the
+// standalone worker) can reach sockets held by whichever API instance owns them.
+// Each subscribed API instance replies with how many sockets it delivered to.
+export const IN_APP_DELIVERY_CHANNEL = 'in-app:deliveries';
+const ACK_CHANNEL = `in-app:acks:${uuidv4()}`;
+const ACK_TIMEOUT_MS = 2000;
+
+interface DeliveryMessage {
+  id: string;
+  room: string;
+  payload: Record<string, any>;
+  replyTo: string;
+}
+
+interface PendingDelivery {
+  expected: number;
+  received: number;
+  socketsReached: number;
+  resolve: (socketsReached: number) => void;
+  timer: NodeJS.Timeout;
+}
 
 let io: Server | null = null;
+let deliverySubscriber: ReturnType<typeof redisConnection.duplicate> | null = null;
+let ackSubscriber: ReturnType<typeof redisConnection.duplicate> | null = null;
+const pendingDeliveries = new Map<string, PendingDelivery>();
 
 export function setSocketServer(server: Server) {
   io = server;
+
+  if (deliverySubscriber) return;
+  deliverySubscriber = redisConnection.duplicate();
+  deliverySubscriber.subscribe(IN_APP_DELIVERY_CHANNEL).catch((error) => {
+    console.error('❌ Failed to subscribe to in-app deliveries:', error);
+  });
+  deliverySubscriber.on('message', async (_channel: string, raw: string) => {
+    try {
+      const delivery: DeliveryMessage = JSON.parse(raw);
+      const socketsReached = io?.sockets.adapter.rooms.get(delivery.room)?.size || 0;
+
+      if (socketsReached > 0) {
+        io!.to(delivery.room).emit('notification', delivery.payload);
+      }
+
+      await redisConnection.publish(
+        delivery.replyTo,
+        JSON.stringify({ id: delivery.id, socketsReached })
+      );
+    } catch (error) {
+      console.error('❌ Failed to handle in-app delivery:', error);
+    }
+  });
+}
+
+function settleDelivery(id: string) {
+  const pending = pendingDeliveries.get(id);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingDeliveries.delete(id);
+  pending.resolve(pending.socketsReached);
 }
 
-export function sendInApp(to: string, message: string) {
-  if (io) {
-    io.to(to).emit('notification', { message });
+async function ensureAckSubscriber() {
+  if (ackSubscriber) return;
+  ackSubscriber = redisConnection.duplicate();
+  ackSubscriber.on('message', (_channel: string, raw: string) => {
+    const { id, socketsReached } = JSON.parse(raw);
+    const pending = pendingDeliveries.get(id);
+    if (!pending) return;
+
+    pending.received += 1;
+    pending.socketsReached += socketsReached;
+    if (pending.received >= pending.expected) {
+      settleDelivery(id);
+    }
+  });
+  await ackSubscriber.subscribe(ACK_CHANNEL);
+}
+
+// Resolves with the number of sockets, across all API instances, that received the notification
+export async function sendInApp(to: string, payload: Record<string, any>): Promise<number> {
+  await ensureAckSubscriber();
+
+  const delivery: DeliveryMessage = {
+    id: uuidv4(),
+    room: to,
+    payload,
+    replyTo: ACK_CHANNEL,
+  };
+
+  const acknowledged = new Promise<number>((resolve) => {
+    pendingDeliveries.set(delivery.id, {
+      expected: Infinity,
+      received: 0,
+      socketsReached: 0,
+      resolve,
+      timer: setTimeout(() => settleDelivery(delivery.id), ACK_TIMEOUT_MS),
+    });
+  });
+
+  try {
+    // PUBLISH returns how many API instances are listening, i.e. how many acks to wait for
+    const instances = await redisConnection.publish(IN_APP_DELIVERY_CHANNEL, JSON.stringify(delivery));
+    const pending = pendingDeliveries.get(delivery.id);
+    if (pending) {
+      pending.expected = instances;
+      if (pending.received >= instances) {
+        settleDelivery(delivery.id);
+      }
+    }
+  } catch (error) {
+    settleDelivery(delivery.id);
+    throw error;
   }
+
+  return acknowledged;
+}
+
+// Number of API instances currently able to deliver in-app notifications
+export async function countInAppSubscribers(): Promise<number> {
+  const [, count] = (await redisConnection.pubsub('NUMSUB', IN_APP_DELIVERY_CHANNEL)) as [string, number];
+  return Number(count);
 }
@@ -0,0 +1,93 @@
+import { PrismaClient } from '@prisma/client';
+import { addSuppression } from './suppressionService';
+
+const prisma = new PrismaClient();
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+// The carrier-standard opt-out, opt-in and help keywords Twilio also recognizes
+const KEYWORDS: Record<string, SmsKeyword> = {
+  stop: 'stop',
+  stopall: 'stop',
+  unsubscribe: 'stop',
+  cancel: 'stop',
+  end: 'stop',
+  quit: 'stop',
+  start: 'start',
+  yes: 'start',
+  unstop: 'start',
+  help: 'help',
+  info: 'help',
+};
+
+const DEFAULT_HELP_TEXT = 'Dheenotifications: Reply STOP to unsubscribe or START to resubscribe. Msg & data rates may apply.';
+
+export interface InboundSms {
+  messageSid: string;
+  from: string;
+  to: string;
+  body: string;
+}
+
+// Keywords only count as the whole message, so "please stop by later" is just a reply
+export function parseKeyword(body: string): SmsKeyword | null {
+  const word = body.trim().replace(/[.!]+$/, '').toLowerCase();
+  return KEYWORDS[word] ?? null;
+}
+
+// Set SMS_HELP_TEXT to an empty string to leave HELP replies to Twilio
+export function helpText() {
+  return process.env.SMS_HELP_TEXT ?? DEFAULT_HELP_TEXT;
+}
+
+// Stores the message, applies STOP/START and returns the auto-reply text, if any.
+// Replies are linked to the last message we sent to the number.
+export async function handleInboundSms(sms: InboundSms): Promise<{ keyword: SmsKeyword | null; reply: string | null }> {
+  const keyword = parseKeyword(sms.body);
+
+  // Twilio retries webhooks it didn't get a response for; only act on a message once
+  const existing = await prisma.inboundMessage.findUnique({ where: { providerMessageId: sms.messageSid } });
+  if (existing) {
+    return { keyword, reply: keyword === 'help' ? helpText() || null : null };
+  }
+
+  const lastOutbound = await prisma.notificationLog.findFirst({
+    where: { channel: 'sms', to: sms.from, status: 'success' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, userId: true },
+  });
+
+  await prisma.inboundMessage.create({
+    data: {
+      providerMessageId: sms.messageSid,
+      from: sms.from,
+      to: sms.to,
+      body: sms.body,
+      keyword,
+      notificationLogId: lastOutbound?.id ?? null,
+      userId: lastOutbound?.userId ?? null,
+    },
+  });
+
+  // STOP applies to our number as a whole, so it is global rather than per sending account
+  if (keyword === 'stop') {
+    await addSuppression({
+      userId: null,
+      address: sms.from,
+      channel: 'sms',
+      reason: 'unsubscribed',
+      source: 'inbound_sms',
+      detail: `Replied "${sms.body.trim()}"`,
+    });
+  }
+
+  // START undoes opt-outs in every scope, including ones learned from Twilio error 21610.
+  // Entries added for other reasons (bounces, manual blocks) stay.
+  if (keyword === 'start') {
+    await prisma.suppression.deleteMany({
+      where: { channel: 'sms', address: sms.from, reason: 'unsubscribed' },
+    });
+  }
+
+  return { keyword, reply: keyword === 'help' ? helpText() || null : null };
+}
@@ -0,0 +1,77 @@
+import { PrismaClient, InboxItem } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export function toInboxPayload(item: InboxItem, replayed = false) {
+  return {
+    id: item.id,
+    message: item.message,
+    subject: item.subject,
+    metadata: item.metadata,
+    createdAt: item.createdAt,
+    ...(replayed && { replayed }),
+  };
+}
+
+// Items for a notification are created once; retried deliveries get the existing item back
+export async function createInboxItem(data: {
+  userId: number;
+  notificationId?: number | null;
+  message: string;
+  subject?: string | null;
+  metadata?: Record<string, any> | null;
+}) {
+  const item = {
+    userId: data.userId,
+    notificationId: data.notificationId ?? null,
+    message: data.message,
+    subject: data.subject ?? null,
+    metadata: data.metadata ?? undefined,
+  };
+
+  if (!data.notificationId) {
+    return prisma.inboxItem.create({ data: item });
+  }
+
+  return prisma.inboxItem.upsert({
+    where: { notificationId: data.notificationId },
+    create: item,
+    update: {},
+  });
+}
+
+export async function markInboxItemsDelivered(ids: number[]) {
+  if (ids.length === 0) return;
+  await prisma.inboxItem.updateMany({
+    where: { id: { in: ids }, deliveredAt: null },
+    data: { deliveredAt: new Date() },
+  });
+}
+
+// Items stored while the user had no connected socket
+export async function getUndeliveredInboxItems(userId: number) {
+  return prisma.inboxItem.findMany({
+    where: { userId, deliveredAt: null, archivedAt: null },
+    orderBy: { createdAt: 'asc' },
+    take: 100,
+  });
+}
+
+// Keeps NotificationLog.readAt in step with the inbox so analytics can report read rates
+export async function syncLogReadState(inboxItemIds: number[], readAt: Date | null) {
+  if (inboxItemIds.length === 0) return;
+  await prisma.notificationLog.updateMany({
+    where: {
+      channel: 'in-app',
+      OR: inboxItemIds.map(id => ({ metadata: { path: ['inboxItemId'], equals: id } })),
+    },
+    data: { readAt },
+  });
+}
+
+export async function syncAllLogsRead(userId: number, readAt: Date) {
+  await prisma.notificationLog.updateMany({
+    where: { channel: 'in-app', userId, readAt: null },
+    data: { readAt },
+  });
+}
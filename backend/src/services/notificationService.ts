@@ -0,0 +1,377 @@
+import { PrismaClient, Prisma, Notification, ScheduledNotification } from '@prisma/client';
+import { notificationQueue, notificationJobOptions } from '../queue/notificationQueue';
+import { refreshCampaignStats } from './campaignService';
+import { syncScheduledJob, isScheduledJobPending, removeScheduledJob } from '../scheduler/scheduledJobs';
+import { NotificationPriority } from './preferenceService';
+import { MessageFormat } from '../channels/types';
+
+const prisma = new PrismaClient();
+
+export type NotificationStatus =
+  | 'accepted'
+  | 'scheduled'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'failed'
+  | 'cancelled'
+  | 'expired'
+  | 'skipped';
+
+// States from which a notification will never be sent (again). "sent" ones were accepted
+// by the provider and may still move to "delivered" or "failed" when its receipt arrives.
+export const FINAL_STATUSES: NotificationStatus[] = ['sent', 'delivered', 'failed', 'cancelled', 'expired', 'skipped'];
+
+// Final statuses a delivery receipt can no longer change
+const SETTLED_STATUSES = FINAL_STATUSES.filter((status) => status !== 'sent');
+
+export interface NotificationInput {
+  userId?: number | null;
+  to: string;
+  channel: string;
+  message: string;
+  messageFormat?: MessageFormat;
+  subject?: string | null;
+  templateId?: number | null;
+  templateVersion?: number | null;
+  locale?: string | null; // Template locale variant the content was rendered from
+  campaignId?: number | null;
+  metadata?: Record<string, any> | null;
+  expiresAt?: Date | null;
+  priority?: NotificationPriority;
+  category?: string | null;
+  trackEngagement?: boolean;
+}
+
+function toCreateData(input: NotificationInput) {
+  return {
+    userId: input.userId ?? null,
+    to: input.to,
+    channel: input.channel,
+    message: input.message,
+    messageFormat: input.messageFormat ?? 'text',
+    subject: input.subject ?? null,
+    templateId: input.templateId ?? null,
+    templateVersion: input.templateVersion ?? null,
+    locale: input.locale ?? null,
+    campaignId: input.campaignId ?? null,
+    metadata: input.metadata ?? undefined,
+    expiresAt: input.expiresAt ?? null,
+    priority: input.priority ?? 'normal',
+    category: input.category ?? null,
+    trackEngagement: input.trackEngagement ?? false,
+  };
+}
+
+export function buildJobData(notification: Notification) {
+  return {
+    notificationId: notification.id,
+    userId: notification.userId,
+    to: notification.to,
+    channel: notification.channel,
+    message: notification.message,
+    messageFormat: notification.messageFormat,
+    subject: notification.subject,
+    templateId: notification.templateId,
+    templateVersion: notification.templateVersion,
+    campaignId: notification.campaignId,
+    metadata: notification.metadata,
+    priority: notification.priority,
+    category: notification.category,
+    trackEngagement: notification.trackEngagement,
+  };
+}
+
+// Marked queued before the job exists, so a fast worker's status changes aren't overwritten
+export async function enqueueNotification(notification: Notification) {
+  const queued = await prisma.notification.update({
+    where: { id: notification.id },
+    data: { status: 'queued', queuedAt: new Date() },
+  });
+
+  await notificationQueue.add('send', buildJobData(queued), notificationJobOptions);
+
+  return queued;
+}
+
+// Creates the notification record and queues it for immediate delivery
+export async function submitNotification(input: NotificationInput) {
+  const notification = await prisma.notification.create({
+    data: toCreateData(input),
+  });
+
+  return enqueueNotification(notification);
+}
+
+// Creates the notification record together with its ScheduledNotification row
+// and the delayed job that will send it
+export async function scheduleNotification(
+  input: NotificationInput,
+  sendAt: Date,
+  recurringNotificationId: number | null = null
+) {
+  const notification = await prisma.notification.create({
+    data: {
+      ...toCreateData(input),
+      status: 'scheduled',
+      schedule: {
+        create: {
+          userId: input.userId ?? null,
+          to: input.to,
+          channel: input.channel,
+          message: input.message,
+          subject: input.subject ?? null,
+          templateId: input.templateId ?? null,
+          templateVersion: input.templateVersion ?? null,
+          campaignId: input.campaignId ?? null,
+          metadata: input.metadata ?? undefined,
+          recurringNotificationId,
+          sendAt,
+        },
+      },
+    },
+    include: { schedule: true },
+  });
+
+  try {
+    await syncScheduledJob(notification.schedule!.id, buildJobData(notification), sendAt);
+  } catch (error) {
+    // Don't leave a schedule behind that nothing will fire
+    await prisma.scheduledNotification.delete({ where: { id: notification.schedule!.id } });
+    await prisma.notification.delete({ where: { id: notification.id } });
+    throw error;
+  }
+
+  return notification;
+}
+
+// Returns the notification behind a ScheduledNotification, creating it for rows
+// scheduled before notifications were tracked
+export async function ensureScheduledNotificationRecord(scheduled: ScheduledNotification) {
+  let notification = scheduled.notificationId
+    ? await prisma.notification.findUnique({ where: { id: scheduled.notificationId } })
+    : null;
+
+  if (!notification) {
+    notification = await prisma.notification.create({
+      data: {
+        ...toCreateData({
+          ...scheduled,
+          metadata: scheduled.metadata as Record<string, any> | null,
+        }),
+        status: 'scheduled',
+      },
+    });
+    await prisma.scheduledNotification.update({
+      where: { id: scheduled.id },
+      data: { notificationId: notification.id },
+    });
+  }
+
+  return notification;
+}
+
+// Applies content or time changes to a pending scheduled notification and its delayed job
+export async function updateScheduledNotification(
+  scheduled: ScheduledNotification,
+  changes: Partial<Pick<ScheduledNotification, 'to' | 'message' | 'subject' | 'sendAt'>> & { metadata?: Record<string, any> }
+) {
+  const updatedSchedule = await prisma.scheduledNotification.update({
+    where: { id: scheduled.id },
+    data: changes,
+  });
+
+  const notification = await ensureScheduledNotificationRecord(updatedSchedule);
+  const { sendAt, ...contentChanges } = changes;
+  const updatedNotification = Object.keys(contentChanges).length > 0
+    ? await prisma.notification.update({
+        where: { id: notification.id },
+        data: contentChanges,
+      })
+    : notification;
+
+  await syncScheduledJob(updatedSchedule.id, buildJobData(updatedNotification), updatedSchedule.sendAt);
+
+  return updatedSchedule;
+}
+
+// Cancels a pending scheduled notification and its delayed job. Returns false when
+// the job has already started firing and can no longer be stopped.
+export async function cancelScheduledNotification(scheduled: ScheduledNotification) {
+  if (!(await isScheduledJobPending(scheduled.id))) {
+    return false;
+  }
+
+  await removeScheduledJob(scheduled.id);
+  await prisma.scheduledNotification.update({
+    where: { id: scheduled.id },
+    data: { status: 'cancelled' },
+  });
+
+  if (scheduled.notificationId) {
+    await cancelNotification(scheduled.notificationId);
+  }
+
+  return true;
+}
+
+// Campaign counters follow recipient outcomes, so refresh them whenever a
+// campaign notification enters or leaves a final state
+async function syncCampaign(notification: Notification) {
+  if (notification.campaignId) {
+    await refreshCampaignStats(notification.campaignId);
+  }
+}
+
+// Keeps the ScheduledNotification row (if any) in step with its notification's outcome
+async function syncSchedule(notificationId: number, status: string) {
+  await prisma.scheduledNotification.updateMany({
+    where: { notificationId },
+    data: { status },
+  });
+}
+
+// Applies a status change only while the notification's status matches `from`, so a
+// late or repeated write never undoes a status that is further along. Returns the
+// updated notification, or null when it was left unchanged.
+async function transition(
+  notificationId: number,
+  from: { in: NotificationStatus[] } | { notIn: NotificationStatus[] },
+  data: Prisma.NotificationUpdateManyMutationInput
+) {
+  const { count } = await prisma.notification.updateMany({
+    where: { id: notificationId, status: from },
+    data,
+  });
+  return count > 0 ? prisma.notification.findUnique({ where: { id: notificationId } }) : null;
+}
+
+// Called by the worker whenever it picks up a job. Returns false when the notification
+// must not be sent, e.g. it was cancelled or expired while waiting in the queue.
+export async function checkPending(notificationId: number): Promise<{ proceed: boolean; reason?: string }> {
+  const notification = await prisma.notification.findUnique({ where: { id: notificationId } });
+
+  if (!notification) {
+    return { proceed: false, reason: 'notification not found' };
+  }
+
+  if (FINAL_STATUSES.includes(notification.status as NotificationStatus)) {
+    return { proceed: false, reason: `notification already ${notification.status}` };
+  }
+
+  if (notification.expiresAt && notification.expiresAt <= new Date()) {
+    const expired = await transition(notificationId, { notIn: FINAL_STATUSES }, { status: 'expired' });
+    if (expired) {
+      await syncSchedule(expired.id, 'expired');
+      await syncCampaign(expired);
+    }
+    return { proceed: false, reason: 'notification expired' };
+  }
+
+  return { proceed: true };
+}
+
+// Called by the worker right before each attempt
+export async function beginAttempt(notificationId: number): Promise<{ proceed: boolean; reason?: string }> {
+  const pending = await checkPending(notificationId);
+  if (!pending.proceed) {
+    return pending;
+  }
+
+  await prisma.notification.update({
+    where: { id: notificationId },
+    data: { status: 'sending', attemptCount: { increment: 1 } },
+  });
+  return { proceed: true };
+}
+
+export async function markDelivered(notificationId: number, deliveredAt: Date) {
+  const notification = await transition(notificationId, { notIn: SETTLED_STATUSES }, { status: 'delivered', deliveredAt, lastError: null });
+  if (!notification) return;
+  await syncSchedule(notification.id, 'sent');
+  await syncCampaign(notification);
+}
+
+// Handed to a provider that confirms delivery later through a status callback. The
+// receipt may already have been applied, in which case nothing changes.
+export async function markSent(notificationId: number) {
+  const notification = await transition(notificationId, { notIn: FINAL_STATUSES }, { status: 'sent', lastError: null });
+  if (!notification) return;
+  await syncSchedule(notification.id, 'sent');
+  await syncCampaign(notification);
+}
+
+// Not sent because the recipient doesn't want it, e.g. they opted out of the channel
+export async function markSkipped(notificationId: number, reason: string) {
+  const notification = await transition(notificationId, { notIn: FINAL_STATUSES }, { status: 'skipped', skipReason: reason });
+  if (!notification) return;
+  await syncSchedule(notification.id, 'skipped');
+  await syncCampaign(notification);
+}
+
+// Held back by the recipient's quiet hours; doesn't count as an attempt
+export async function markDeferred(notificationId: number, deferredUntil: Date) {
+  await transition(notificationId, { notIn: FINAL_STATUSES }, { status: 'queued', deferredUntil });
+}
+
+// An attempt failed but BullMQ will retry it
+export async function markAttemptFailed(notificationId: number, error: string) {
+  await transition(notificationId, { notIn: FINAL_STATUSES }, { status: 'queued', lastError: error });
+}
+
+// No attempts left, or the provider reported the message undeliverable
+export async function markFailed(notificationId: number, error: string) {
+  const notification = await transition(notificationId, { notIn: SETTLED_STATUSES }, {
+    status: 'failed',
+    lastError: error,
+    failedAt: new Date(),
+  });
+  if (!notification) return;
+  await syncSchedule(notification.id, 'failed');
+  await syncCampaign(notification);
+}
+
+// Replayed from the dead-letter store
+export async function markRequeued(notificationId: number) {
+  const notification = await transition(notificationId, { in: ['failed'] }, {
+    status: 'queued',
+    queuedAt: new Date(),
+    failedAt: null,
+  });
+  if (!notification) return;
+  await syncCampaign(notification);
+}
+
+// Only notifications no attempt has started on can be cancelled
+export async function cancelNotification(notificationId: number) {
+  const notification = await transition(notificationId, { in: ['accepted', 'scheduled', 'queued'] }, {
+    status: 'cancelled',
+    cancelledAt: new Date(),
+  });
+  if (!notification) return;
+  await syncCampaign(notification);
+}
+
+export async function findNotificationByPublicId(publicId: string, userId: number) {
+  return prisma.notification.findFirst({
+    where: { publicId, userId },
+    include: {
+      schedule: {
+        select: { id: true, sendAt: true, status: true },
+      },
+      attempts: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          attempt: true,
+          status: true,
+          error: true,
+          metadata: true,
+          deliveredAt: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,344 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getChannelNames } from '../channels';
+import { isValidTimezone, toWallClock, fromWallClock } from '../scheduler/recurrence';
+import { normalizeLocale } from '../utils/locale';
+
+const prisma = new PrismaClient();
+
+export type NotificationPriority = 'normal' | 'urgent';
+
+export interface QuietHoursWindow {
+  start: string; // "HH:MM" in the recipient's timezone
+  end: string;   // may be earlier than start for windows spanning midnight
+}
+
+export interface UserPreferences {
+  timezone?: string;
+  locale?: string; // Language for templated notifications, e.g. "pt-BR"
+  // Keyed by channel name; "default" applies to channels without their own window
+  quietHours?: Record<string, QuietHoursWindow>;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Channels on which a notification can be traced back to a registered user's account
+// (by userId or email), so their account preferences apply. Quiet hours for other
+// channels are set per address in the recipient's preferences.
+const ACCOUNT_CHANNELS = ['in-app', 'email'];
+
+function toMinutes(time: string) {
+  const [, hours, minutes] = TIME_PATTERN.exec(time)!;
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+export function validateQuietHours(input: any, channels: string[] = getChannelNames()): string[] {
+  const errors: string[] = [];
+
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    return ['quietHours must be an object keyed by channel'];
+  }
+
+  for (const [channel, window] of Object.entries<any>(input)) {
+    if (!getChannelNames().includes(channel) && channel !== 'default') {
+      errors.push(`quietHours.${channel}: unknown channel`);
+    } else if (channel !== 'default' && !channels.includes(channel)) {
+      errors.push(`quietHours.${channel}: can't be matched to an account, set it in the recipient's preferences instead`);
+    } else if (!window || !TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      errors.push(`quietHours.${channel}: start and end must be HH:MM`);
+    } else if (window.start === window.end) {
+      errors.push(`quietHours.${channel}: start and end must differ`);
+    }
+  }
+
+  return errors;
+}
+
+export function parseQuietHours(value: unknown): Record<string, QuietHoursWindow> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const quietHours: Record<string, QuietHoursWindow> = {};
+  for (const [channel, window] of Object.entries<any>(value)) {
+    if (window && TIME_PATTERN.test(window.start) && TIME_PATTERN.test(window.end)) {
+      quietHours[channel] = { start: window.start, end: window.end };
+    }
+  }
+  return quietHours;
+}
+
+// Returns a list of problems with the given preferences, empty when they are valid
+export function validatePreferences(input: any): string[] {
+  const errors: string[] = [];
+
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    return ['preferences must be an object'];
+  }
+
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone))) {
+    errors.push(`Unknown timezone: ${input.timezone}`);
+  }
+
+  if (input.locale !== undefined && !normalizeLocale(input.locale)) {
+    errors.push(`Invalid locale: ${input.locale}`);
+  }
+
+  if (input.quietHours !== undefined) {
+    errors.push(...validateQuietHours(input.quietHours, ACCOUNT_CHANNELS));
+  }
+
+  return errors;
+}
+
+// Reads the stored JSON, ignoring anything that doesn't match the expected shape
+export function parsePreferences(value: unknown): UserPreferences {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const raw = value as Record<string, any>;
+  const preferences: UserPreferences = {};
+
+  if (typeof raw.timezone === 'string' && isValidTimezone(raw.timezone)) {
+    preferences.timezone = raw.timezone;
+  }
+
+  const locale = normalizeLocale(raw.locale);
+  if (locale) {
+    preferences.locale = locale;
+  }
+
+  const quietHours = parseQuietHours(raw.quietHours);
+  if (quietHours) {
+    preferences.quietHours = quietHours;
+  }
+
+  return preferences;
+}
+
+// The registered user a notification is addressed to, if we can tell: in-app
+// notifications target their userId's inbox, emails match an account's address
+async function findAccountPreferences(channel: string, to: string, userId?: number | null) {
+  let user: { preferences: unknown } | null = null;
+
+  if (channel === 'in-app' && userId) {
+    user = await prisma.user.findUnique({ where: { id: userId }, select: { preferences: true } });
+  } else if (channel === 'email') {
+    user = await prisma.user.findFirst({
+      where: { email: { equals: to, mode: 'insensitive' } },
+      select: { preferences: true },
+    });
+  }
+
+  return user ? parsePreferences(user.preferences) : null;
+}
+
+// Quiet hours set for this address by the sending account win over the ones on the
+// recipient's own account, which only exist for in-app and email recipients
+export async function findRecipientPreferences(channel: string, to: string, userId?: number | null) {
+  const accountPreferences = await findAccountPreferences(channel, to, userId);
+  const preference = userId
+    ? await findRecipientPreference(userId, recipientKey(channel, to, userId))
+    : null;
+  const quietHours = parseQuietHours(preference?.quietHours);
+
+  if (!quietHours) {
+    return accountPreferences;
+  }
+
+  return {
+    ...accountPreferences,
+    quietHours,
+    timezone: preference!.timezone || accountPreferences?.timezone,
+  };
+}
+
+// When `now` falls inside the channel's quiet hours, returns the moment they end
+export function getQuietHoursEnd(preferences: UserPreferences, channel: string, now: Date = new Date()): Date | null {
+  const window = preferences.quietHours?.[channel] ?? preferences.quietHours?.default;
+  if (!window) {
+    return null;
+  }
+
+  const timezone = preferences.timezone || 'UTC';
+  const wallClock = toWallClock(now, timezone);
+  const current = wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+
+  if (!inside) {
+    return null;
+  }
+
+  // The end is found on the recipient's wall clock, then converted, so windows that
+  // span a DST change still end at the local time they name
+  const endWallClock = new Date(wallClock);
+  endWallClock.setUTCHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (end <= current) {
+    endWallClock.setUTCDate(endWallClock.getUTCDate() + 1);
+  }
+
+  return fromWallClock(endWallClock, timezone);
+}
+
+export interface ChannelSubscription {
+  enabled: boolean;
+  // Per-category exceptions, e.g. email disabled except for "billing"
+  categories?: Record<string, boolean>;
+}
+
+export interface RecipientSubscriptions {
+  channels: Record<string, ChannelSubscription>;
+  categories: Record<string, boolean>;
+}
+
+const CATEGORY_PATTERN = /^[a-z0-9_-]{1,50}$/i;
+
+// Email addresses are case-insensitive; registered users are addressed as "user:<id>"
+export function normalizeRecipient(recipient: string) {
+  const trimmed = recipient.trim();
+  return trimmed.includes('@') ? trimmed.toLowerCase() : trimmed;
+}
+
+// In-app notifications go to an account's inbox, so they are keyed by user id
+export function recipientKey(channel: string, to: string, userId?: number | null) {
+  return channel === 'in-app' && userId ? `user:${userId}` : normalizeRecipient(to);
+}
+
+function isBooleanMap(value: any) {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    && Object.entries(value).every(([key, flag]) => CATEGORY_PATTERN.test(key) && typeof flag === 'boolean');
+}
+
+export function validateSubscriptions(input: { channels?: any; categories?: any }): string[] {
+  const errors: string[] = [];
+  const channelNames = getChannelNames();
+
+  if (input.channels !== undefined) {
+    if (!input.channels || typeof input.channels !== 'object' || Array.isArray(input.channels)) {
+      errors.push('channels must be an object keyed by channel');
+    } else {
+      for (const [channel, subscription] of Object.entries<any>(input.channels)) {
+        if (!channelNames.includes(channel)) {
+          errors.push(`channels.${channel}: unknown channel`);
+        } else if (!subscription || typeof subscription.enabled !== 'boolean') {
+          errors.push(`channels.${channel}: enabled must be a boolean`);
+        } else if (subscription.categories !== undefined && !isBooleanMap(subscription.categories)) {
+          errors.push(`channels.${channel}.categories must map category names to booleans`);
+        }
+      }
+    }
+  }
+
+  if (input.categories !== undefined && !isBooleanMap(input.categories)) {
+    errors.push('categories must map category names to booleans');
+  }
+
+  return errors;
+}
+
+export function parseSubscriptions(preference: { channels: unknown; categories: unknown } | null): RecipientSubscriptions {
+  return {
+    channels: (preference?.channels as Record<string, ChannelSubscription>) || {},
+    categories: (preference?.categories as Record<string, boolean>) || {},
+  };
+}
+
+// Returns why the recipient doesn't want this notification, or null if they do.
+// A channel's category exception wins over the channel switch, which wins over
+// the recipient's category-wide choice.
+export function getSubscriptionBlock(
+  subscriptions: RecipientSubscriptions,
+  channel: string,
+  category?: string | null
+): string | null {
+  const channelSubscription = subscriptions.channels[channel];
+  const categoryException = category ? channelSubscription?.categories?.[category] : undefined;
+
+  if (categoryException !== undefined) {
+    return categoryException ? null : `recipient opted out of ${category} on ${channel}`;
+  }
+
+  if (channelSubscription && !channelSubscription.enabled) {
+    return `recipient opted out of ${channel}`;
+  }
+
+  if (category && subscriptions.categories[category] === false) {
+    return `recipient opted out of ${category}`;
+  }
+
+  return null;
+}
+
+export async function findRecipientPreference(ownerId: number, recipient: string) {
+  return prisma.recipientPreference.findUnique({
+    where: { ownerId_recipient: { ownerId, recipient: normalizeRecipient(recipient) } },
+  });
+}
+
+// Called from the send path; notifications without an owning account can't have preferences
+export async function checkRecipientSubscription(notification: {
+  userId?: number | null;
+  channel: string;
+  to: string;
+  category?: string | null;
+}) {
+  if (!notification.userId) {
+    return null;
+  }
+
+  const preference = await findRecipientPreference(
+    notification.userId,
+    recipientKey(notification.channel, notification.to, notification.userId)
+  );
+
+  return preference
+    ? getSubscriptionBlock(parseSubscriptions(preference), notification.channel, notification.category)
+    : null;
+}
+
+export async function saveRecipientPreference(
+  ownerId: number,
+  recipient: string,
+  changes: {
+    channels?: Record<string, ChannelSubscription>;
+    categories?: Record<string, boolean>;
+    locale?: string | null; // null clears it
+    timezone?: string | null;
+    quietHours?: Record<string, QuietHoursWindow> | null; // replaces all windows; null clears them
+  }
+) {
+  const key = normalizeRecipient(recipient);
+  const existing = parseSubscriptions(await findRecipientPreference(ownerId, key));
+
+  // Merged so a link that only toggles one channel keeps the rest
+  const channels: Record<string, any> = { ...existing.channels, ...changes.channels };
+  const categories = { ...existing.categories, ...changes.categories };
+  const locale = changes.locale === undefined ? undefined : normalizeLocale(changes.locale);
+  const quietHours = changes.quietHours === null
+    ? Prisma.DbNull
+    : parseQuietHours(changes.quietHours) as Record<string, any> | undefined;
+  const data = { channels, categories, locale, timezone: changes.timezone, quietHours };
+
+  return prisma.recipientPreference.upsert({
+    where: { ownerId_recipient: { ownerId, recipient: key } },
+    create: { ownerId, recipient: key, ...data },
+    update: data,
+  });
+}
+
+// Language to render templates in for this recipient: their preference with the sending
+// account first, then the one on their own account if they are a registered user
+export async function findRecipientLocale(ownerId: number, channel: string, to: string): Promise<string | null> {
+  const preference = await findRecipientPreference(ownerId, recipientKey(channel, to, ownerId));
+  if (preference?.locale) {
+    return preference.locale;
+  }
+
+  const userPreferences = await findAccountPreferences(channel, to, ownerId);
+  return userPreferences?.locale ?? null;
+}
@@ -0,0 +1,248 @@
+import { PrismaClient, RecurringNotification } from '@prisma/client';
+import { scheduleNotification, cancelScheduledNotification } from './notificationService';
+import { nextOccurrence, upcomingOccurrences, RecurrenceRule } from '../scheduler/recurrence';
+
+const prisma = new PrismaClient();
+
+export type RecurringStatus = 'active' | 'paused' | 'completed';
+
+function toRule(series: RecurringNotification): RecurrenceRule {
+  return {
+    scheduleType: series.scheduleType,
+    expression: series.expression,
+    timezone: series.timezone,
+    startAt: series.startAt,
+    endAt: series.endAt,
+  };
+}
+
+function hasOccurrencesLeft(series: RecurringNotification) {
+  return !series.maxOccurrences || series.occurrenceCount < series.maxOccurrences;
+}
+
+async function completeSeries(series: RecurringNotification) {
+  await prisma.recurringNotification.update({
+    where: { id: series.id },
+    data: { status: 'completed', nextRunAt: null },
+  });
+  console.log(`🏁 Recurring notification ${series.id} has no occurrences left`);
+}
+
+// Schedules the series' next occurrence after `after` (or now, if later). A series keeps
+// exactly one pending occurrence; the worker spawns the following one when it fires.
+export async function spawnNextOccurrence(series: RecurringNotification, after: Date = new Date()) {
+  if (series.status !== 'active') {
+    return null;
+  }
+
+  const now = new Date();
+  const sendAt = hasOccurrencesLeft(series)
+    ? nextOccurrence(toRule(series), after > now ? after : now)
+    : null;
+
+  if (!sendAt) {
+    await completeSeries(series);
+    return null;
+  }
+
+  // Guard on occurrenceCount so concurrent callers can't spawn the same occurrence twice
+  const claimed = await prisma.recurringNotification.updateMany({
+    where: { id: series.id, status: 'active', occurrenceCount: series.occurrenceCount },
+    data: { occurrenceCount: { increment: 1 }, nextRunAt: sendAt },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  try {
+    return await scheduleNotification(
+      {
+        userId: series.userId,
+        to: series.to,
+        channel: series.channel,
+        message: series.message,
+        subject: series.subject,
+        templateId: series.templateId,
+        metadata: series.metadata as Record<string, any> | null,
+      },
+      sendAt,
+      series.id
+    );
+  } catch (error) {
+    await prisma.recurringNotification.update({
+      where: { id: series.id },
+      data: { occurrenceCount: { decrement: 1 }, nextRunAt: null },
+    });
+    throw error;
+  }
+}
+
+// Called by the worker when a scheduled notification fires
+export async function advanceRecurringSeries(scheduledNotificationId: number) {
+  const scheduled = await prisma.scheduledNotification.findUnique({
+    where: { id: scheduledNotificationId },
+    include: { recurringNotification: true },
+  });
+
+  const series = scheduled?.recurringNotification;
+  if (!scheduled || !series) {
+    return;
+  }
+
+  // Retries of the same occurrence, or a skip that already spawned its successor
+  const successor = await prisma.scheduledNotification.findFirst({
+    where: {
+      recurringNotificationId: series.id,
+      status: 'pending',
+      sendAt: { gt: scheduled.sendAt },
+    },
+  });
+  if (successor) {
+    return;
+  }
+
+  if (!series.lastRunAt || series.lastRunAt < scheduled.sendAt) {
+    await prisma.recurringNotification.update({
+      where: { id: series.id },
+      data: { lastRunAt: scheduled.sendAt },
+    });
+  }
+
+  await spawnNextOccurrence(series, scheduled.sendAt);
+}
+
+// Cancels occurrences that have not started firing and returns them
+async function cancelPendingOccurrences(seriesId: number) {
+  const pending = await prisma.scheduledNotification.findMany({
+    where: { recurringNotificationId: seriesId, status: 'pending' },
+    orderBy: { sendAt: 'asc' },
+  });
+
+  const cancelled = [];
+  for (const scheduled of pending) {
+    if (await cancelScheduledNotification(scheduled)) {
+      cancelled.push(scheduled);
+    }
+  }
+
+  return cancelled;
+}
+
+export async function pauseRecurringSeries(series: RecurringNotification) {
+  // Flip the status first so a firing occurrence doesn't spawn a new one meanwhile
+  const paused = await prisma.recurringNotification.update({
+    where: { id: series.id },
+    data: { status: 'paused', nextRunAt: null },
+  });
+
+  const cancelled = await cancelPendingOccurrences(series.id);
+
+  // Cancelled occurrences were never sent, so give them back
+  if (cancelled.length > 0) {
+    return prisma.recurringNotification.update({
+      where: { id: series.id },
+      data: { occurrenceCount: { decrement: cancelled.length } },
+    });
+  }
+
+  return paused;
+}
+
+export async function resumeRecurringSeries(series: RecurringNotification) {
+  const resumed = await prisma.recurringNotification.update({
+    where: { id: series.id },
+    data: { status: 'active' },
+  });
+
+  await spawnNextOccurrence(resumed);
+
+  return prisma.recurringNotification.findUniqueOrThrow({ where: { id: series.id } });
+}
+
+// Cancels the pending occurrence and schedules the one after it. Returns null when
+// there was no pending occurrence to skip.
+export async function skipNextOccurrence(series: RecurringNotification) {
+  const cancelled = await cancelPendingOccurrences(series.id);
+  if (cancelled.length === 0) {
+    return null;
+  }
+
+  const skipped = cancelled[cancelled.length - 1];
+  console.log(`⏭️ Skipped occurrence ${skipped.id} of recurring notification ${series.id}`);
+
+  const current = await prisma.recurringNotification.findUniqueOrThrow({ where: { id: series.id } });
+  const next = await spawnNextOccurrence(current, skipped.sendAt);
+
+  return { skipped, next };
+}
+
+export async function deleteRecurringSeries(series: RecurringNotification) {
+  await prisma.recurringNotification.update({
+    where: { id: series.id },
+    data: { status: 'paused' },
+  });
+
+  await cancelPendingOccurrences(series.id);
+
+  // Past occurrences keep their history; the relation is set to null
+  await prisma.recurringNotification.delete({ where: { id: series.id } });
+}
+
+// Pending occurrences followed by the projected ones after them
+export async function getUpcomingOccurrences(series: RecurringNotification, count: number) {
+  const pending = await prisma.scheduledNotification.findMany({
+    where: { recurringNotificationId: series.id, status: 'pending' },
+    orderBy: { sendAt: 'asc' },
+    take: count,
+    include: { notification: { select: { publicId: true } } },
+  });
+
+  const occurrences: { sendAt: Date; status: string; scheduledId: number | null; notificationId: string | null }[] =
+    pending.map((scheduled) => ({
+      sendAt: scheduled.sendAt,
+      status: 'scheduled',
+      scheduledId: scheduled.id,
+      notificationId: scheduled.notification?.publicId ?? null,
+    }));
+
+  if (series.status === 'active') {
+    const remaining = series.maxOccurrences
+      ? Math.max(series.maxOccurrences - series.occurrenceCount, 0)
+      : Infinity;
+    const after = pending.length > 0 ? pending[pending.length - 1].sendAt : new Date();
+    const projected = upcomingOccurrences(toRule(series), after, Math.min(count - occurrences.length, remaining));
+
+    for (const sendAt of projected) {
+      occurrences.push({ sendAt, status: 'projected', scheduledId: null, notificationId: null });
+    }
+  }
+
+  return occurrences;
+}
+
+// Makes sure every active series has a pending occurrence, e.g. after the worker
+// crashed between firing an occurrence and spawning the next one
+export async function reconcileRecurringSeries() {
+  const active = await prisma.recurringNotification.findMany({
+    where: {
+      status: 'active',
+      occurrences: { none: { status: 'pending' } },
+    },
+  });
+
+  let spawned = 0;
+  for (const series of active) {
+    try {
+      if (await spawnNextOccurrence(series, series.lastRunAt ?? undefined)) {
+        spawned++;
+      }
+    } catch (error) {
+      console.error(`❌ Failed to reconcile recurring notification ${series.id}:`, error);
+    }
+  }
+
+  if (spawned > 0) {
+    console.log(`🔁 Spawned ${spawned} missing recurring notification occurrences`);
+  }
+}
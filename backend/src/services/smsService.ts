@@ -2,16 +2,33 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import twilio from 'twilio';
+import { publicApiUrl } from '../utils/recipientLinks';
 
-const client = twilio(
-  process.env.TWILIO_ACCOUNT_SID!,
-  process.env.TWILIO_AUTH_TOKEN!
-);
+let client: ReturnType<typeof twilio> | null = null;
+
+// Created on first use so processes that only register the channel
+// (e.g. the API server) don't require Twilio credentials at startup
+export function getSmsClient() {
+  if (!client) {
+    client = twilio(
+      process.env.TWILIO_ACCOUNT_SID!,
+      process.env.TWILIO_AUTH_TOKEN!
+    );
+  }
+  return client;
+}
+
+// Twilio has to be able to reach the callback, so receipts are only requested
+// once a public URL is configured
+export function statusCallbackUrl() {
+  return process.env.PUBLIC_API_URL ? `${publicApiUrl()}/api/webhooks/twilio/status` : undefined;
+}
 
 export async function sendSMS(to: string, message: string) {
-  return client.messages.create({
+  return getSmsClient().messages.create({
     body: message,
     from: process.env.TWILIO_PHONE,
     to, // Must be a verified number in trial mode
+    statusCallback: statusCallbackUrl(),
   });
 }
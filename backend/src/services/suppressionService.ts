@@ -0,0 +1,226 @@
+import { PrismaClient, Suppression } from '@prisma/client';
+import { SuppressionReason } from '../channels';
+import { normalizeRecipient, saveRecipientPreference } from './preferenceService';
+import { RecipientLinkPayload } from '../utils/recipientLinks';
+
+const prisma = new PrismaClient();
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = [
+  'hard_bounce',
+  'soft_bounce',
+  'complaint',
+  'invalid_recipient',
+  'unsubscribed',
+  'manual',
+];
+
+// Soft bounces (full mailbox, greylisting) usually clear up on their own
+const SOFT_BOUNCE_SUPPRESSION_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface SuppressionInput {
+  userId?: number | null;
+  address: string;
+  channel: string;
+  reason: SuppressionReason;
+  source: string;
+  detail?: string | null;
+  expiresAt?: Date | null;
+}
+
+export interface BounceReport {
+  address: string;
+  reason: SuppressionReason;
+  status?: string;
+  detail?: string;
+}
+
+// Global entries apply to everyone; the user's own entries only to their notifications
+export async function findActiveSuppression(channel: string, address: string, userId?: number | null) {
+  return prisma.suppression.findFirst({
+    where: {
+      channel,
+      address: normalizeRecipient(address),
+      OR: [{ userId: null }, ...(userId ? [{ userId }] : [])],
+      AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// Adds the address, or refreshes the existing entry in the same scope
+export async function addSuppression(input: SuppressionInput): Promise<Suppression> {
+  const address = normalizeRecipient(input.address);
+  const existing = await prisma.suppression.findFirst({
+    where: { userId: input.userId ?? null, channel: input.channel, address },
+  });
+
+  const data = {
+    reason: input.reason,
+    source: input.source,
+    detail: input.detail ?? null,
+    expiresAt: input.expiresAt ?? null,
+  };
+
+  if (existing) {
+    return prisma.suppression.update({ where: { id: existing.id }, data });
+  }
+
+  return prisma.suppression.create({
+    data: { ...data, userId: input.userId ?? null, channel: input.channel, address },
+  });
+}
+
+// Applies an unsubscribe link for the sender that issued it. Categorized mail opts the
+// recipient out of that category; anything else stops all of the sender's email to them.
+export async function unsubscribeRecipient(link: RecipientLinkPayload) {
+  if (link.category) {
+    await saveRecipientPreference(link.ownerId, link.recipient, { categories: { [link.category]: false } });
+    return { scope: 'category' as const, category: link.category };
+  }
+
+  await addSuppression({
+    userId: link.ownerId,
+    address: link.recipient,
+    channel: 'email',
+    reason: 'unsubscribed',
+    source: 'unsubscribe',
+  });
+  return { scope: 'email' as const };
+}
+
+// Reads the recipient reports out of an RFC 3464 delivery status notification or an
+// RFC 5965 (ARF) complaint. Delayed or successful reports are ignored.
+export function parseDeliveryReport(raw: string): BounceReport[] {
+  const text = raw.replace(/\r\n/g, '\n');
+
+  if (/^Feedback-Type:\s*abuse/im.test(text)) {
+    const recipient = /^(?:Original-Rcpt-To|Removal-Recipient):\s*(?:rfc822;\s*)?<?([^\s>]+@[^\s>]+)>?/im.exec(text);
+    return recipient ? [{ address: recipient[1], reason: 'complaint', detail: 'Feedback-Type: abuse' }] : [];
+  }
+
+  const reports: BounceReport[] = [];
+
+  // Per-recipient fields are separated from each other by blank lines
+  for (const block of text.split(/\n\s*\n/)) {
+    const recipient = /^(?:Final-Recipient|Original-Recipient):\s*rfc822;\s*<?([^\s>]+@[^\s>]+)>?/im.exec(block);
+    const action = /^Action:\s*(\S+)/im.exec(block)?.[1].toLowerCase();
+    const status = /^Status:\s*(\d\.\d{1,3}\.\d{1,3})/im.exec(block)?.[1];
+
+    if (!recipient || action !== 'failed' || !status) {
+      continue;
+    }
+
+    if (reports.some((report) => report.address === recipient[1])) {
+      continue;
+    }
+
+    reports.push({
+      address: recipient[1],
+      reason: status.startsWith('5') ? 'hard_bounce' : 'soft_bounce',
+      status,
+      detail: /^Diagnostic-Code:\s*(.+)$/im.exec(block)?.[1].trim(),
+    });
+  }
+
+  return reports;
+}
+
+export async function ingestBounces(reports: BounceReport[], userId: number | null, source: string) {
+  const entries = [];
+
+  for (const report of reports) {
+    entries.push(await addSuppression({
+      userId,
+      address: report.address,
+      channel: 'email',
+      reason: report.reason,
+      source,
+      detail: [report.status, report.detail].filter(Boolean).join(' ') || null,
+      expiresAt: report.reason === 'soft_bounce' ? new Date(Date.now() + SOFT_BOUNCE_SUPPRESSION_MS) : null,
+    }));
+  }
+
+  return entries;
+}
+
+export const CSV_COLUMNS = ['address', 'channel', 'reason', 'source', 'detail', 'expiresAt', 'scope', 'createdAt'];
+
+// Spreadsheets evaluate cells starting with these as formulas, and details come from
+// provider and inbound SMS text, so such cells are prefixed with a quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string) {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(entries: Suppression[]) {
+  const rows = entries.map((entry) => [
+    entry.address,
+    entry.channel,
+    entry.reason,
+    entry.source,
+    entry.detail ?? '',
+    entry.expiresAt?.toISOString() ?? '',
+    entry.userId ? 'user' : 'global',
+    entry.createdAt.toISOString(),
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  return records.map((record) =>
+    columns.reduce((acc, column, index) => {
+      const value = (record[index] ?? '').trim();
+      // Undo csvField's formula guard, e.g. for phone numbers exported as '+15551234567
+      acc[column] = value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+      return acc;
+    }, {} as Record<string, string>)
+  );
+}
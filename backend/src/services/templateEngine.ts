@@ -0,0 +1,439 @@
+// A small, logic-light template language for notification content:
+//
+//   {{ name }}                      variable (dotted paths like {{ order.total }} work too)
+//   {{ name | upper }}              filters, chained left to right
+//   {{ name | default:"there" }}    filter arguments follow a colon
+//   {{{ html }}}                    output without HTML escaping
+//   {{#if paid}}...{{else}}...{{/if}}   also {{#unless}}
+//   {{#each items}}{{ this.name }}{{ @index }}{{else}}none{{/each}}
+//   {{! a comment }}
+//
+// Templates never run code and unknown variables render as empty strings.
+
+export class TemplateSyntaxError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'TemplateSyntaxError';
+    this.line = line;
+  }
+}
+
+export interface RenderOptions {
+  escapeHtml?: boolean; // Escape {{ }} output, for content that ends up in HTML
+  locale?: string | null; // Used by the date, number and currency filters
+  timezone?: string; // Used by the date filter
+}
+
+type FilterArg = string | number;
+
+interface Expression {
+  path: string[];
+  filters: { name: string; args: FilterArg[] }[];
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expression; raw: boolean }
+  | { type: 'if'; expr: Expression; negate: boolean; then: Node[]; otherwise: Node[] }
+  | { type: 'each'; expr: Expression; body: Node[]; otherwise: Node[] };
+
+interface Scope {
+  item: any;
+  index?: number;
+  length?: number;
+}
+
+const DEFAULT_LOCALE = 'en-US';
+
+const PATH_REGEX = /^(?:this|@index|@first|@last|[A-Za-z_][\w-]*)(?:\.[\w-]+)*$/;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isEmpty(value: any) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function toDate(value: any): Date | null {
+  if (isEmpty(value)) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: 'short' },
+  medium: { dateStyle: 'medium' },
+  long: { dateStyle: 'long' },
+  full: { dateStyle: 'full' },
+  datetime: { dateStyle: 'medium', timeStyle: 'short' },
+  time: { timeStyle: 'short' },
+};
+
+// YYYY-MM-DD style patterns, for formats that shouldn't change with the locale
+function formatDatePattern(date: Date, pattern: string, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date).reduce((acc, part) => {
+    acc[part.type] = part.value;
+    return acc;
+  }, {} as Record<string, string>);
+
+  const tokens: Record<string, string> = {
+    YYYY: parts.year,
+    MM: parts.month,
+    DD: parts.day,
+    HH: parts.hour,
+    mm: parts.minute,
+    ss: parts.second,
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+type Filter = (value: any, args: FilterArg[], options: RenderOptions) => any;
+
+const FILTERS: Record<string, Filter> = {
+  upper: (value) => (isEmpty(value) ? value : String(value).toUpperCase()),
+  lower: (value) => (isEmpty(value) ? value : String(value).toLowerCase()),
+  capitalize: (value) => (isEmpty(value) ? value : String(value).charAt(0).toUpperCase() + String(value).slice(1)),
+  trim: (value) => (isEmpty(value) ? value : String(value).trim()),
+  default: (value, [fallback = '']) => (isEmpty(value) ? fallback : value),
+  truncate: (value, [length = 50]) => {
+    const text = isEmpty(value) ? '' : String(value);
+    return text.length > Number(length) ? `${text.slice(0, Number(length))}…` : text;
+  },
+  join: (value, [separator = ', ']) => (Array.isArray(value) ? value.join(String(separator)) : value),
+  number: (value, [decimals], options) => {
+    const number = Number(value);
+    if (isEmpty(value) || isNaN(number)) return value;
+    const digits = decimals === undefined ? undefined : Number(decimals);
+    return new Intl.NumberFormat(options.locale || DEFAULT_LOCALE, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(number);
+  },
+  currency: (value, [currency = 'USD'], options) => {
+    const number = Number(value);
+    if (isEmpty(value) || isNaN(number)) return value;
+    return new Intl.NumberFormat(options.locale || DEFAULT_LOCALE, {
+      style: 'currency',
+      currency: String(currency).toUpperCase(),
+    }).format(number);
+  },
+  date: (value, [format = 'medium', timezone], options) => {
+    const date = toDate(value);
+    if (!date) return value;
+    const timeZone = String(timezone || options.timezone || 'UTC');
+    const style = DATE_STYLES[String(format)];
+    if (style) {
+      return new Intl.DateTimeFormat(options.locale || DEFAULT_LOCALE, { ...style, timeZone }).format(date);
+    }
+    if (format === 'iso') {
+      return date.toISOString();
+    }
+    return formatDatePattern(date, String(format), timeZone);
+  },
+};
+
+export function getFilterNames() {
+  return Object.keys(FILTERS);
+}
+
+// Splits on a separator outside of quoted strings
+function splitOutsideQuotes(text: string, separator: string) {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    return null;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+function parseArg(text: string, line: number): FilterArg {
+  const quoted = /^(["'])([\s\S]*)\1$/.exec(text);
+  if (quoted) return quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (/^[\w/+-]+$/.test(text)) return text;
+  throw new TemplateSyntaxError(`Invalid filter argument "${text}"`, line);
+}
+
+function parseExpression(source: string, line: number): Expression {
+  const segments = splitOutsideQuotes(source, '|');
+  if (!segments) {
+    throw new TemplateSyntaxError(`Unterminated string in "{{ ${source} }}"`, line);
+  }
+
+  const [path, ...filterSources] = segments;
+  if (!PATH_REGEX.test(path)) {
+    throw new TemplateSyntaxError(`Invalid variable name "${path}"`, line);
+  }
+
+  const filters = filterSources.map((filterSource) => {
+    const [name, ...args] = splitOutsideQuotes(filterSource, ':')!;
+    if (!FILTERS[name]) {
+      throw new TemplateSyntaxError(`Unknown filter "${name}"`, line);
+    }
+    return { name, args: args.map((arg) => parseArg(arg, line)) };
+  });
+
+  return { path: path.split('.'), filters };
+}
+
+interface OpenBlock {
+  kind: 'if' | 'unless' | 'each';
+  line: number;
+  node: Extract<Node, { type: 'if' | 'each' }>;
+  inElse: boolean;
+}
+
+const TAG_REGEX = /\{\{\{([\s\S]*?)\}\}\}|\{\{([\s\S]*?)\}\}/g;
+
+function lineAt(source: string, offset: number) {
+  return source.slice(0, offset).split('\n').length;
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: OpenBlock[] = [];
+
+  const target = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    if (block.node.type === 'if') return block.inElse ? block.node.otherwise : block.node.then;
+    return block.inElse ? block.node.otherwise : block.node.body;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG_REGEX.lastIndex = 0;
+
+  while ((match = TAG_REGEX.exec(source)) !== null) {
+    const line = lineAt(source, match.index);
+    if (match.index > lastIndex) {
+      target().push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = TAG_REGEX.lastIndex;
+
+    if (match[1] !== undefined) {
+      target().push({ type: 'output', expr: parseExpression(match[1].trim(), line), raw: true });
+      continue;
+    }
+
+    const tag = match[2].trim();
+
+    if (tag.startsWith('!')) {
+      continue;
+    }
+
+    const open = /^#(if|unless|each)\s+([\s\S]+)$/.exec(tag);
+    if (open) {
+      const kind = open[1] as OpenBlock['kind'];
+      const expr = parseExpression(open[2].trim(), line);
+      const node: OpenBlock['node'] = kind === 'each'
+        ? { type: 'each', expr, body: [], otherwise: [] }
+        : { type: 'if', expr, negate: kind === 'unless', then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ kind, line, node, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block) {
+        throw new TemplateSyntaxError('{{else}} outside of an #if, #unless or #each block', line);
+      }
+      if (block.inElse) {
+        throw new TemplateSyntaxError(`Second {{else}} in the #${block.kind} block opened on line ${block.line}`, line);
+      }
+      block.inElse = true;
+      continue;
+    }
+
+    const close = /^\/(if|unless|each)$/.exec(tag);
+    if (close) {
+      const block = stack.pop();
+      if (!block) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}} without a matching {{#${close[1]}}}`, line);
+      }
+      if (block.kind !== close[1]) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}} closes the #${block.kind} block opened on line ${block.line}`, line);
+      }
+      continue;
+    }
+
+    if (/^[#/]/.test(tag)) {
+      throw new TemplateSyntaxError(`Unknown block "{{${tag}}}"`, line);
+    }
+
+    target().push({ type: 'output', expr: parseExpression(tag, line), raw: false });
+  }
+
+  if (source.slice(lastIndex).includes('{{')) {
+    throw new TemplateSyntaxError('Unclosed {{', lineAt(source, source.indexOf('{{', lastIndex)));
+  }
+  if (lastIndex < source.length) {
+    target().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Unclosed {{#${unclosed.kind}}} block`, unclosed.line);
+  }
+
+  return root;
+}
+
+// Only a value's own properties are readable, so names like "constructor" don't reach
+// into the prototype chain
+function property(value: any, key: string) {
+  return value !== null && value !== undefined && Object.prototype.hasOwnProperty.call(value, key)
+    ? value[key]
+    : undefined;
+}
+
+function lookup(path: string[], data: Record<string, any>, scopes: Scope[]): any {
+  const [head, ...rest] = path;
+  const scope = scopes[scopes.length - 1];
+  let value: any;
+
+  if (head === 'this') {
+    value = scope ? scope.item : data;
+  } else if (head === '@index') {
+    value = scope?.index;
+  } else if (head === '@first') {
+    value = scope ? scope.index === 0 : undefined;
+  } else if (head === '@last') {
+    value = scope ? scope.index === scope.length! - 1 : undefined;
+  } else {
+    // Inside #each, the item's own fields shadow outer variables
+    const owner = [...scopes].reverse().find((s) => s.item !== null && typeof s.item === 'object'
+      && Object.prototype.hasOwnProperty.call(s.item, head));
+    value = owner ? owner.item[head] : property(data, head);
+  }
+
+  for (const key of rest) {
+    value = property(value, key);
+  }
+  return value;
+}
+
+function evaluate(expr: Expression, data: Record<string, any>, scopes: Scope[], options: RenderOptions) {
+  return expr.filters.reduce((value, filter) => {
+    try {
+      return FILTERS[filter.name](value, filter.args, options);
+    } catch {
+      // e.g. an unknown currency code; fall back to the unfiltered value
+      return value;
+    }
+  }, lookup(expr.path, data, scopes));
+}
+
+function stringify(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function renderNodes(nodes: Node[], data: Record<string, any>, scopes: Scope[], options: RenderOptions): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'output') {
+      const text = stringify(evaluate(node.expr, data, scopes, options));
+      output += options.escapeHtml && !node.raw ? escapeHtml(text) : text;
+    } else if (node.type === 'if') {
+      const value = evaluate(node.expr, data, scopes, options);
+      const truthy = !isEmpty(value) && value !== false && value !== 0;
+      output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, data, scopes, options);
+    } else {
+      const value = evaluate(node.expr, data, scopes, options);
+      const items = Array.isArray(value) ? value : [];
+      output += items.length === 0
+        ? renderNodes(node.otherwise, data, scopes, options)
+        : items.map((item, index) => renderNodes(node.body, data, [...scopes, { item, index, length: items.length }], options)).join('');
+    }
+  }
+
+  return output;
+}
+
+// Top-level variables the template reads. Names used only inside #each blocks may be
+// fields of the items, so they are not included.
+function collectVariables(nodes: Node[], variables: Set<string>, depth = 0) {
+  const add = (expr: Expression) => {
+    const [head] = expr.path;
+    if (depth === 0 && head !== 'this' && !head.startsWith('@')) {
+      variables.add(head);
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'output') {
+      add(node.expr);
+    } else if (node.type === 'if') {
+      add(node.expr);
+      collectVariables(node.then, variables, depth);
+      collectVariables(node.otherwise, variables, depth);
+    } else if (node.type === 'each') {
+      add(node.expr);
+      collectVariables(node.body, variables, depth + 1);
+      collectVariables(node.otherwise, variables, depth);
+    }
+  }
+  return variables;
+}
+
+export interface CompiledTemplate {
+  variables: string[];
+  render(data: Record<string, any>, options?: RenderOptions): string;
+}
+
+// Throws TemplateSyntaxError for malformed templates
+export function compileTemplate(source: string): CompiledTemplate {
+  const nodes = parse(source);
+
+  return {
+    variables: Array.from(collectVariables(nodes, new Set())),
+    render: (data, options = {}) => renderNodes(nodes, data, [], options),
+  };
+}
+
+export function renderTemplate(source: string, data: Record<string, any>, options: RenderOptions = {}) {
+  return compileTemplate(source).render(data, options);
+}
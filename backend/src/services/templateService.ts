@@ -0,0 +1,383 @@
+import { TemplateVersion } from '@prisma/client';
+import { compileTemplate, TemplateSyntaxError, RenderOptions } from './templateEngine';
+import { diffLines } from '../utils/diff';
+import { MessageFormat } from '../channels/types';
+import { normalizeLocale, localeFallbackChain } from '../utils/locale';
+
+export type TemplateVariant = {
+  content: string;
+  subject: string | null; // Falls back to the default subject when null
+};
+
+export type TemplateLocales = Record<string, TemplateVariant>;
+
+export interface TemplateSource {
+  channel: string;
+  content: string;
+  subject?: string | null;
+  locales?: unknown; // TemplateLocales as stored
+}
+
+export interface TemplateProblem {
+  field: string; // "content", "subject" or e.g. "locales.pt-BR.content"
+  message: string;
+  line: number;
+}
+
+export const VARIABLE_TYPES = ['string', 'number', 'date', 'url', 'enum'] as const;
+
+export type VariableType = typeof VARIABLE_TYPES[number];
+
+export type VariableDefinition = {
+  name: string;
+  type: VariableType;
+  required: boolean;
+  default?: string | number;
+  values?: string[]; // Allowed values of an enum
+};
+
+// Templates declare variables either by name only (not checked when sending) or
+// with a definition. Both forms are stored in the `variables` array.
+export type TemplateVariable = string | VariableDefinition;
+
+export interface VariableProblem {
+  variable: string;
+  message: string;
+}
+
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][\w-]*$/;
+
+function isMissing(value: unknown) {
+  return value === undefined || value === null || value === '';
+}
+
+// Checks one value against its definition and returns it as the template should see it
+function checkVariableValue(definition: VariableDefinition, value: any): { value?: any; error?: string } {
+  switch (definition.type) {
+    case 'string':
+      return typeof value === 'string' ? { value } : { error: 'must be a string' };
+    case 'number': {
+      // Numbers from form fields and CSV imports arrive as strings
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? { value: number } : { error: 'must be a number' };
+    }
+    case 'date':
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+        ? { value }
+        : { error: 'must be an ISO 8601 date' };
+    case 'url': {
+      try {
+        const url = new URL(String(value));
+        if (typeof value === 'string' && (url.protocol === 'http:' || url.protocol === 'https:')) {
+          return { value };
+        }
+      } catch {
+        // Reported below
+      }
+      return { error: 'must be an http(s) URL' };
+    }
+    case 'enum':
+      return definition.values!.includes(value)
+        ? { value }
+        : { error: `must be one of: ${definition.values!.join(', ')}` };
+  }
+}
+
+// Reads the stored JSON, ignoring entries that don't match the expected shape
+export function parseVariableSchema(value: unknown): TemplateVariable[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry: any): TemplateVariable[] => {
+    if (typeof entry === 'string') {
+      return [entry];
+    }
+    if (entry && typeof entry.name === 'string' && VARIABLE_TYPES.includes(entry.type)) {
+      return [{
+        name: entry.name,
+        type: entry.type,
+        required: entry.required === true,
+        ...(entry.default !== undefined && { default: entry.default }),
+        ...(entry.type === 'enum' && { values: Array.isArray(entry.values) ? entry.values.map(String) : [] }),
+      }];
+    }
+    return [];
+  });
+}
+
+export function variableName(variable: TemplateVariable) {
+  return typeof variable === 'string' ? variable : variable.name;
+}
+
+// Validates variable declarations from a request
+export function normalizeVariableSchema(input: any): { variables: TemplateVariable[]; errors: string[] } {
+  const variables: TemplateVariable[] = [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(input)) {
+    return { variables, errors: ['variables must be an array'] };
+  }
+
+  const names = new Set<string>();
+  input.forEach((entry: any, index: number) => {
+    const name = typeof entry === 'string' ? entry : entry?.name;
+    const field = `variables[${index}]`;
+
+    if (typeof name !== 'string' || !VARIABLE_NAME_REGEX.test(name)) {
+      errors.push(`${field}: invalid variable name`);
+      return;
+    }
+    if (names.has(name)) {
+      errors.push(`${field}: duplicate variable ${name}`);
+      return;
+    }
+    names.add(name);
+
+    if (typeof entry === 'string') {
+      variables.push(name);
+      return;
+    }
+
+    if (!VARIABLE_TYPES.includes(entry.type)) {
+      errors.push(`${field}.type must be one of: ${VARIABLE_TYPES.join(', ')}`);
+      return;
+    }
+    if (entry.required !== undefined && typeof entry.required !== 'boolean') {
+      errors.push(`${field}.required must be a boolean`);
+      return;
+    }
+
+    const definition: VariableDefinition = { name, type: entry.type, required: entry.required === true };
+
+    if (entry.type === 'enum') {
+      if (!Array.isArray(entry.values) || entry.values.length === 0
+        || !entry.values.every((value: unknown) => typeof value === 'string')) {
+        errors.push(`${field}.values must be a non-empty array of strings`);
+        return;
+      }
+      definition.values = entry.values;
+    } else if (entry.values !== undefined) {
+      errors.push(`${field}.values is only allowed for enum variables`);
+      return;
+    }
+
+    if (!isMissing(entry.default)) {
+      const checked = checkVariableValue(definition, entry.default);
+      if (checked.error) {
+        errors.push(`${field}.default ${checked.error}`);
+        return;
+      }
+      definition.default = checked.value;
+    }
+
+    variables.push(definition);
+  });
+
+  return { variables, errors };
+}
+
+// Variables for edited content when no new declarations were given: the names it now
+// reads, keeping the existing definition of each one that is still used
+export function deriveVariableSchema(existing: unknown, names: string[]): TemplateVariable[] {
+  const declared = new Map(parseVariableSchema(existing).map((variable) => [variableName(variable), variable]));
+  return names.map((name) => declared.get(name) ?? name);
+}
+
+// Checks the values sent for a template against its declared variables and fills in
+// defaults. Values for undeclared variables pass through unchanged.
+export function validateTemplateVariables(schema: unknown, input: Record<string, any>) {
+  const values: Record<string, any> = { ...input };
+  const problems: VariableProblem[] = [];
+
+  for (const variable of parseVariableSchema(schema)) {
+    if (typeof variable === 'string') continue;
+
+    if (isMissing(values[variable.name])) {
+      if (variable.default !== undefined) {
+        values[variable.name] = variable.default;
+      } else if (variable.required) {
+        problems.push({ variable: variable.name, message: 'is required' });
+      } else {
+        delete values[variable.name];
+      }
+      continue;
+    }
+
+    const checked = checkVariableValue(variable, values[variable.name]);
+    if (checked.error) {
+      problems.push({ variable: variable.name, message: checked.error });
+    } else {
+      values[variable.name] = checked.value;
+    }
+  }
+
+  return { values, problems };
+}
+
+// Reads the stored JSON, ignoring entries that don't match the expected shape
+export function parseTemplateLocales(value: unknown): TemplateLocales {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const locales: TemplateLocales = {};
+  for (const [locale, variant] of Object.entries<any>(value)) {
+    if (variant && typeof variant.content === 'string') {
+      locales[locale] = { content: variant.content, subject: typeof variant.subject === 'string' ? variant.subject : null };
+    }
+  }
+  return locales;
+}
+
+// Validates locale variants from a request and returns them keyed by canonical locale
+export function normalizeTemplateLocales(input: any): { locales: TemplateLocales; errors: string[] } {
+  const locales: TemplateLocales = {};
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { locales, errors: ['locales must be an object keyed by locale'] };
+  }
+
+  for (const [key, variant] of Object.entries<any>(input)) {
+    const locale = normalizeLocale(key);
+    if (!locale) {
+      errors.push(`locales.${key}: invalid locale`);
+    } else if (locales[locale]) {
+      errors.push(`locales.${key}: duplicate of ${locale}`);
+    } else if (!variant || typeof variant.content !== 'string' || variant.content.length === 0) {
+      errors.push(`locales.${key}.content is required`);
+    } else if (variant.subject !== undefined && variant.subject !== null && typeof variant.subject !== 'string') {
+      errors.push(`locales.${key}.subject must be a string`);
+    } else {
+      locales[locale] = { content: variant.content, subject: variant.subject ?? null };
+    }
+  }
+
+  return { locales, errors };
+}
+
+function templateSources(source: Omit<TemplateSource, 'channel'>): [string, string | null | undefined][] {
+  return [
+    ['content', source.content],
+    ['subject', source.subject],
+    ...Object.entries(parseTemplateLocales(source.locales)).flatMap(([locale, variant]) => [
+      [`locales.${locale}.content`, variant.content],
+      [`locales.${locale}.subject`, variant.subject],
+    ] as [string, string | null | undefined][]),
+  ];
+}
+
+// Compile errors in a template's content, subject and locale variants, reported when the template is saved
+export function checkTemplateSyntax(source: Omit<TemplateSource, 'channel'>): TemplateProblem[] {
+  const problems: TemplateProblem[] = [];
+
+  for (const [field, text] of templateSources(source)) {
+    if (!text) continue;
+    try {
+      compileTemplate(text);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      problems.push({ field, message: error.message, line: error.line });
+    }
+  }
+
+  return problems;
+}
+
+// Variables read by any part of the template. Assumes the template compiles.
+export function extractTemplateVariables(source: Omit<TemplateSource, 'channel'>): string[] {
+  const variables = new Set<string>();
+  for (const [, text] of templateSources(source)) {
+    if (text) {
+      compileTemplate(text).variables.forEach((variable) => variables.add(variable));
+    }
+  }
+  return Array.from(variables);
+}
+
+// Picks the most specific variant for the locale ("pt-BR", then "pt"), or the default
+// content when there is none. `locale` is the variant used, null for the default.
+export function resolveTemplateVariant(template: TemplateSource, locale?: string | null) {
+  const locales = parseTemplateLocales(template.locales);
+  const requested = normalizeLocale(locale);
+
+  for (const candidate of requested ? localeFallbackChain(requested) : []) {
+    const variant = locales[candidate];
+    if (variant) {
+      return { locale: candidate, content: variant.content, subject: variant.subject || template.subject || null };
+    }
+  }
+
+  return { locale: null, content: template.content, subject: template.subject ?? null };
+}
+
+// Renders a template for one recipient in their language. Email content goes into the HTML
+// body, so variable values are escaped there; subjects are plain text on every channel.
+export function renderTemplateContent(
+  template: TemplateSource,
+  variables: Record<string, any>,
+  options: Omit<RenderOptions, 'escapeHtml'> = {}
+) {
+  const variant = resolveTemplateVariant(template, options.locale);
+  // Dates and amounts are formatted for the language the text is written in
+  const renderOptions = { ...options, locale: variant.locale ?? undefined };
+
+  return {
+    message: compileTemplate(variant.content).render(variables, {
+      ...renderOptions,
+      escapeHtml: template.channel === 'email',
+    }),
+    subject: variant.subject ? compileTemplate(variant.subject).render(variables, renderOptions) : null,
+    locale: variant.locale,
+    format: (template.channel === 'email' ? 'html' : 'text') as MessageFormat,
+  };
+}
+
+function variableDefinitions(variables: unknown): Record<string, TemplateVariable> {
+  return Object.fromEntries(parseVariableSchema(variables).map((variable) => [variableName(variable), variable]));
+}
+
+// What changed between two versions of a template. `from` is null for the first version.
+type VersionSnapshot = Pick<TemplateVersion, 'version' | 'subject' | 'content' | 'variables' | 'locales'>;
+
+export function diffTemplateVersions(from: VersionSnapshot | null, to: VersionSnapshot) {
+  const content = diffLines(from?.content ?? '', to.content);
+  const fromVariables = variableDefinitions(from?.variables);
+  const toVariables = variableDefinitions(to.variables);
+  const fromLocales = parseTemplateLocales(from?.locales);
+  const toLocales = parseTemplateLocales(to.locales);
+
+  return {
+    fromVersion: from?.version ?? null,
+    toVersion: to.version,
+    subject: (from?.subject ?? null) !== (to.subject ?? null)
+      ? { from: from?.subject ?? null, to: to.subject ?? null }
+      : null,
+    content,
+    variables: {
+      added: Object.keys(toVariables).filter((name) => !fromVariables[name]),
+      removed: Object.keys(fromVariables).filter((name) => !toVariables[name]),
+      // Type, required flag, default or allowed values changed
+      changed: Object.keys(toVariables)
+        .filter((name) => fromVariables[name])
+        .filter((name) => JSON.stringify(fromVariables[name]) !== JSON.stringify(toVariables[name])),
+    },
+    locales: {
+      added: Object.keys(toLocales).filter((locale) => !fromLocales[locale]),
+      removed: Object.keys(fromLocales).filter((locale) => !toLocales[locale]),
+      changed: Object.keys(toLocales)
+        .filter((locale) => fromLocales[locale])
+        .filter((locale) => JSON.stringify(fromLocales[locale]) !== JSON.stringify(toLocales[locale]))
+        .map((locale) => ({
+          locale,
+          subject: (fromLocales[locale].subject ?? null) !== (toLocales[locale].subject ?? null)
+            ? { from: fromLocales[locale].subject ?? null, to: toLocales[locale].subject ?? null }
+            : null,
+          content: diffLines(fromLocales[locale].content, toLocales[locale].content),
+        })),
+    },
+    linesAdded: content.filter((line) => line.type === 'added').length,
+    linesRemoved: content.filter((line) => line.type === 'removed').length,
+  };
+}
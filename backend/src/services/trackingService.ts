@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { publicApiUrl } from '../utils/recipientLinks';
+
+const prisma = new PrismaClient();
+
+export type EngagementType = 'open' | 'click';
+
+// Security scanners and mail proxies that fetch images or follow links on the
+// recipient's behalf. Gmail's image proxy only fetches when the mail is opened, so it counts.
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|preview|scanner|curl|wget|python-requests|go-http-client|headless|barracuda|proofpoint|mimecast|symantec|urldefense|safelinks|facebookexternalhit|linkedin|slack|whatsapp|skype/i;
+
+// Events this soon after delivery come from prefetching, not a person
+const PREFETCH_WINDOW_MS = parseInt(process.env.TRACKING_PREFETCH_WINDOW_MS || '5000');
+
+function trackingSecret() {
+  return process.env.TRACKING_SECRET || process.env.JWT_SECRET!;
+}
+
+function sign(value: string) {
+  return crypto.createHmac('sha256', trackingSecret()).update(value).digest('base64url').slice(0, 22);
+}
+
+function safeEqual(a: string, b: string) {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Identifies the notification in tracking URLs without letting anyone forge events for others
+export function createTrackingToken(notificationId: number) {
+  return `${notificationId}.${sign(`notification:${notificationId}`)}`;
+}
+
+export function verifyTrackingToken(token: string): number | null {
+  const [id, signature] = token.split('.');
+  const notificationId = parseInt(id);
+
+  if (!notificationId || !signature || !safeEqual(signature, sign(`notification:${notificationId}`))) {
+    return null;
+  }
+  return notificationId;
+}
+
+// Click links carry their own signature so the redirect can't be used to send people elsewhere
+export function signClickUrl(token: string, url: string) {
+  return sign(`click:${token}:${url}`);
+}
+
+export function verifyClickUrl(token: string, url: string, signature: string) {
+  return safeEqual(signature, signClickUrl(token, url));
+}
+
+// Rewrites http(s) links through the click redirect and appends the open pixel
+export function addEmailTracking(html: string, notificationId: number) {
+  const token = createTrackingToken(notificationId);
+  const baseUrl = publicApiUrl();
+
+  const tracked = html.replace(
+    /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi,
+    (match, prefix, quote, href) => {
+      if (href.startsWith(baseUrl)) {
+        return match;
+      }
+      const url = href.replace(/&amp;/g, '&');
+      const trackedHref = `${baseUrl}/api/track/click/${token}?url=${encodeURIComponent(url)}&amp;sig=${signClickUrl(token, url)}`;
+      return `${prefix}${quote}${trackedHref}${quote}`;
+    }
+  );
+
+  const pixel = `<img src="${baseUrl}/api/track/open/${token}.gif" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`;
+
+  return tracked.includes('</body>')
+    ? tracked.replace('</body>', `${pixel}</body>`)
+    : `${tracked}${pixel}`;
+}
+
+export function isLikelyBot(userAgent: string | undefined, method: string, deliveredAt: Date | null) {
+  if (method === 'HEAD' || !userAgent || BOT_USER_AGENT.test(userAgent)) {
+    return true;
+  }
+  return !!deliveredAt && Date.now() - deliveredAt.getTime() < PREFETCH_WINDOW_MS;
+}
+
+export async function recordEngagement(
+  notificationId: number,
+  type: EngagementType,
+  request: { userAgent?: string; ipAddress?: string; method: string; url?: string }
+) {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    select: { id: true, deliveredAt: true },
+  });
+
+  if (!notification) {
+    return null;
+  }
+
+  const isBot = isLikelyBot(request.userAgent, request.method, notification.deliveredAt);
+
+  const event = await prisma.engagementEvent.create({
+    data: {
+      notificationId,
+      type,
+      url: request.url,
+      userAgent: request.userAgent,
+      ipAddress: request.ipAddress,
+      isBot,
+    },
+  });
+
+  // A click means the mail was opened even if images were blocked
+  if (!isBot) {
+    await prisma.notificationLog.updateMany({
+      where: { notificationId, status: 'success', readAt: null },
+      data: { readAt: event.createdAt },
+    });
+  }
+
+  return event;
+}
+
+function rate(part: number, total: number) {
+  return total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+}
+
+// Open/click counts for tracked, delivered emails matching `where`. Bot events are excluded.
+export async function getEmailEngagement(where: Prisma.NotificationWhereInput) {
+  const notificationFilter: Prisma.NotificationWhereInput = {
+    ...where,
+    channel: 'email',
+    trackEngagement: true,
+    status: 'delivered',
+  };
+
+  const [tracked, opened, clicked, totalOpens, totalClicks] = await Promise.all([
+    prisma.notification.count({ where: notificationFilter }),
+    prisma.engagementEvent.groupBy({
+      by: ['notificationId'],
+      where: { isBot: false, notification: notificationFilter },
+    }),
+    prisma.engagementEvent.groupBy({
+      by: ['notificationId'],
+      where: { type: 'click', isBot: false, notification: notificationFilter },
+    }),
+    prisma.engagementEvent.count({ where: { type: 'open', isBot: false, notification: notificationFilter } }),
+    prisma.engagementEvent.count({ where: { type: 'click', isBot: false, notification: notificationFilter } }),
+  ]);
+
+  return {
+    tracked,
+    uniqueOpens: opened.length,
+    uniqueClicks: clicked.length,
+    totalOpens,
+    totalClicks,
+    openRate: rate(opened.length, tracked),
+    clickRate: rate(clicked.length, tracked),
+  };
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+
+export const SIGNATURE_HEADER = 'X-Dheenotifications-Signature';
+export const TIMESTAMP_HEADER = 'X-Dheenotifications-Timestamp';
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+// Receivers recompute HMAC-SHA256 over "<timestamp>.<raw body>" with their secret
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+export async function sendWebhook(url: string, payload: Record<string, any>, secret: string) {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startTime = Date.now();
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Dheenotifications-Webhook/1.0',
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  // Drain the body so the connection can be reused
+  await response.text().catch(() => undefined);
+
+  return {
+    ok: response.ok,
+    statusCode: response.status,
+    latency: Date.now() - startTime,
+    retryAfterSeconds: parseRetryAfter(response.headers.get('retry-after')),
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
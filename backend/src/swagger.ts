@@ -1,5 +1,6 @@
 import swaggerUi from 'swagger-ui-express';
 import { Router } from 'express';
+import { getChannelNames } from './channels';
 
 // Minimal OpenAPI spec for your notification API
 const swaggerDocument = {
@@ -21,12 +22,17 @@ const swaggerDocument = {
                 type: "object",
                 properties: {
                   to: { type: "string" },
-                  channel: { type: "string", enum: ["email", "sms", "in-app"] },
+                  channel: { type: "string", enum: getChannelNames() },
                   message: { type: "string" },
                   sendAt: {
                     type: "string",
                     format: "date-time",
-                    description: "Optional. ISO8601 string to schedule the message.",
+                    description: "Optional. ISO8601 string to schedule the message (second-level precision).",
+                  },
+                  priority: {
+                    type: "string",
+                    enum: ["normal", "urgent"],
+                    description: "Optional. Urgent notifications are sent during the recipient's quiet hours.",
                   },
                 },
                 required: ["to", "channel", "message"]
@@ -35,7 +41,7 @@ const swaggerDocument = {
           }
         },
         responses: {
-          202: { description: "Notification successfully queued or scheduled" },
+          202: { description: "Notification accepted; the response id can be passed to /api/notify/status/{id}" },
           400: { description: "Validation error" }
         }
       }
@@ -0,0 +1,17 @@
+// Canonical BCP 47 form ("pt-br" -> "pt-BR"), or null if the tag is malformed
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  try {
+    return Intl.getCanonicalLocales(value.trim().replace(/_/g, '-'))[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Most to least specific: "zh-Hant-TW" -> ["zh-Hant-TW", "zh-Hant", "zh"]
+export function localeFallbackChain(locale: string): string[] {
+  const parts = locale.split('-');
+  return parts.map((_, index) => parts.slice(0, parts.length - index).join('-'));
+}
@@ -0,0 +1,54 @@
+import jwt from 'jsonwebtoken';
+
+// Signed tokens for links sent to end recipients, who have no account to log in with.
+// They carry an audience, which verifyAccessToken rejects, so they are never accepted as access tokens.
+const AUDIENCE = 'recipient-link';
+const LINK_TTL = process.env.RECIPIENT_LINK_TTL || '180d';
+
+export type RecipientLinkPurpose = 'preferences' | 'unsubscribe';
+
+export interface RecipientLinkPayload {
+  ownerId: number;
+  recipient: string;
+  purpose: RecipientLinkPurpose;
+  category?: string; // Unsubscribe links for categorized mail opt out of that category only
+}
+
+function linkSecret() {
+  return process.env.RECIPIENT_LINK_SECRET || process.env.JWT_SECRET!;
+}
+
+export function signRecipientToken(payload: RecipientLinkPayload) {
+  return jwt.sign(payload, linkSecret(), {
+    audience: AUDIENCE,
+    expiresIn: LINK_TTL as jwt.SignOptions['expiresIn'],
+  });
+}
+
+// Returns null for invalid or expired tokens, or tokens issued for another purpose
+export function verifyRecipientToken(token: string, purpose: RecipientLinkPurpose): RecipientLinkPayload | null {
+  try {
+    const decoded = jwt.verify(token, linkSecret(), { audience: AUDIENCE }) as any;
+    if (decoded.purpose !== purpose || typeof decoded.ownerId !== 'number' || typeof decoded.recipient !== 'string') {
+      return null;
+    }
+    return {
+      ownerId: decoded.ownerId,
+      recipient: decoded.recipient,
+      purpose,
+      ...(typeof decoded.category === 'string' && { category: decoded.category }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Base URL recipients reach this API on, used for links placed in notifications
+export function publicApiUrl() {
+  const baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 4000}`;
+  return baseUrl.replace(/\/$/, '');
+}
+
+export function buildRecipientLink(path: string, token: string) {
+  return `${publicApiUrl()}${path}/${encodeURIComponent(token)}`;
+}
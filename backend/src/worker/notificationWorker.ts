@@ -1,79 +1,221 @@
-import { Worker, Job } from 'bullmq';
-import { sendEmail } from '../services/emailService';
-import { sendSMS } from '../services/smsService';
-import { sendInApp } from '../services/inAppService';
+import { Worker, Job, UnrecoverableError, DelayedError } from 'bullmq';
+import { getChannel, DeliveryError, ErrorClassification } from '../channels';
 import { PrismaClient } from '@prisma/client';
 import dotenv from 'dotenv';
 import { redisConnection } from '../utils/redis';
+import { recordFailedAttempt, moveToDeadLetter } from '../services/deadLetterService';
+import { checkPending, beginAttempt, markDelivered, markSent, markAttemptFailed, markFailed, markDeferred, markSkipped } from '../services/notificationService';
+import { findRecipientPreferences, getQuietHoursEnd, checkRecipientSubscription } from '../services/preferenceService';
+import { findActiveSuppression, addSuppression } from '../services/suppressionService';
+import { advanceRecurringSeries } from '../services/recurringService';
 dotenv.config();
 
 const prisma = new PrismaClient();
 
+// Rate-limit deferrals don't consume an attempt, so cap them to avoid deferring forever
+const MAX_RATE_LIMIT_DEFERRALS = 5;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 60 * 1000;
+
 const worker = new Worker(
   'notifications',
-  async (job: Job) => {
+  async (job: Job, token?: string) => {
     const { 
+      notificationId,
       userId, 
       to, 
       channel, 
       message, 
       subject, 
       templateId, 
-      campaignId, 
-      metadata 
+      templateVersion,
+      campaignId,
+      priority,
+      category
     } = job.data;
+    let { metadata } = job.data;
     
     let status = 'success';
     let error: string | null = null;
     let deliveredAt: Date | null = null;
+    let errorCode: string | null = null;
+    let providerMessageId: string | null = null;
+    let providerStatus: string | null = null;
+    // What the recipient reads, e.g. the text part of an email rather than its HTML source
+    let sentMessage = message;
 
     console.log(`Processing notification job ${job.id}: ${channel} to ${to}`);
 
+    // Occurrences of a recurring series schedule their successor as soon as they fire.
+    // Retries, deferrals and replays run the job again, so it's flagged once done.
+    if (job.data.scheduledNotificationId && !job.data.seriesAdvanced) {
+      try {
+        await advanceRecurringSeries(job.data.scheduledNotificationId);
+        await job.updateData({ ...job.data, seriesAdvanced: true });
+      } catch (seriesError) {
+        console.error(`Failed to advance recurring series for job ${job.id}:`, seriesError);
+      }
+    }
+
+    // Cancelled, expired or already finished notifications (e.g. a stalled job run again)
+    // must not be skipped or deferred either. Jobs queued before notifications were
+    // tracked carry no notificationId.
+    if (notificationId) {
+      const { proceed, reason } = await checkPending(notificationId);
+      if (!proceed) {
+        console.log(`⏭️ Skipping job ${job.id}: ${reason}`);
+        return;
+      }
+    }
+
+    // Suppressed addresses and recipients who opted out of this channel or category are
+    // never sent to. A lookup failure throws, so the job is retried rather than sent
+    // against their wishes.
+    const suppression = await findActiveSuppression(channel, to, userId);
+    const skipReason = suppression
+      ? `address suppressed (${suppression.reason})`
+      : await checkRecipientSubscription({ userId, channel, to, category });
+    if (skipReason) {
+      console.log(`⏭️ Skipping job ${job.id}: ${skipReason}`);
+      if (notificationId) {
+        await markSkipped(notificationId, skipReason);
+      }
+      return;
+    }
+
+    // Non-urgent notifications wait out the recipient's quiet hours without using an attempt
+    if (priority !== 'urgent' && token) {
+      let deferUntil: Date | null = null;
+      try {
+        const preferences = await findRecipientPreferences(channel, to, userId);
+        deferUntil = preferences && getQuietHoursEnd(preferences, channel);
+      } catch (preferencesError) {
+        console.error(`Failed to load recipient preferences for job ${job.id}:`, preferencesError);
+      }
+
+      if (deferUntil) {
+        console.log(`🌙 Deferring job ${job.id} until ${deferUntil.toISOString()} (quiet hours)`);
+        if (notificationId) {
+          await markDeferred(notificationId, deferUntil);
+        }
+        await job.moveToDelayed(deferUntil.getTime(), token);
+        throw new DelayedError();
+      }
+    }
+
+    // Checked again, as the notification may have been cancelled meanwhile
+    if (notificationId) {
+      const { proceed, reason } = await beginAttempt(notificationId);
+      if (!proceed) {
+        console.log(`⏭️ Skipping job ${job.id}: ${reason}`);
+        return;
+      }
+    }
+
+    const provider = getChannel(channel);
+
     try {
       const startTime = Date.now();
       
-      if (channel === 'email') {
-        await sendEmail(to, message, subject);
-      } else if (channel === 'sms') {
-        await sendSMS(to, message);
-      } else if (channel === 'in-app') {
-        // For in-app notifications, use userId if available, otherwise use socket ID
-        const targetId = userId ? `user_${userId}` : to;
-        await sendInApp(targetId, message);
-      } else {
+      if (!provider) {
         throw new Error(`Unknown channel: ${channel}`);
       }
 
-      deliveredAt = new Date();
+      const rendered = provider.render({ message, subject, format: job.data.messageFormat });
+      sentMessage = rendered.message;
+      const result = await provider.send({
+        notificationId,
+        userId,
+        to,
+        metadata,
+        trackEngagement: job.data.trackEngagement,
+        campaignId,
+        category,
+        ...rendered,
+      });
+      if (result.metadata || result.providerMessageId) {
+        metadata = {
+          ...metadata,
+          ...result.metadata,
+          ...(result.providerMessageId && { providerMessageId: result.providerMessageId }),
+        };
+      }
+
+      providerMessageId = result.providerMessageId ?? null;
+      providerStatus = result.providerStatus ?? null;
       const responseTime = Date.now() - startTime;
       
       console.log(`✅ ${channel} notification sent to ${to} in ${responseTime}ms`);
-      
-      // Update campaign stats if this is part of a campaign
-      if (campaignId) {
-        await prisma.notificationCampaign.update({
-          where: { id: campaignId },
-          data: {
-            successCount: { increment: 1 },
-          },
-        });
-      }
 
+      // Providers that send delivery receipts set deliveredAt when the receipt arrives
+      if (result.awaitingReceipt) {
+        if (notificationId) {
+          await markSent(notificationId);
+        }
+      } else {
+        deliveredAt = new Date();
+        if (notificationId) {
+          await markDelivered(notificationId, deliveredAt);
+        }
+      }
     } catch (err: any) {
       status = 'failed';
       error = err.message;
+      if (err instanceof DeliveryError) {
+        metadata = { ...metadata, ...err.metadata };
+      }
       
-      console.error(`❌ Failed to send ${channel} notification to ${to}:`, error);
-      
-      // Update campaign stats if this is part of a campaign
-      if (campaignId) {
-        await prisma.notificationCampaign.update({
-          where: { id: campaignId },
-          data: {
-            failureCount: { increment: 1 },
-          },
+      // Unknown channels can never succeed
+      const classification: ErrorClassification = provider
+        ? provider.classifyError(err)
+        : { kind: 'permanent' };
+      metadata = {
+        ...metadata,
+        errorType: classification.kind,
+        ...(classification.code !== undefined && { errorCode: classification.code }),
+      };
+      errorCode = classification.code !== undefined ? String(classification.code) : null;
+
+      console.error(`❌ Failed to send ${channel} notification to ${to} (${classification.kind}):`, error);
+
+      if (notificationId) {
+        await markAttemptFailed(notificationId, err.message);
+      }
+
+      await recordFailedAttempt(job, err.message, classification.kind).catch((logError) => {
+        console.error('Failed to record attempt history:', logError);
+      });
+
+      // Bounced or invalid addresses are suppressed for the sending account so later
+      // notifications to them are skipped instead of failing again
+      if (classification.suppress) {
+        await addSuppression({
+          userId: userId ?? null,
+          address: to,
+          channel,
+          reason: classification.suppress,
+          source: 'provider',
+          detail: err.message,
+        }).catch((suppressionError) => {
+          console.error(`Failed to suppress ${to}:`, suppressionError);
         });
       }
+
+      if (classification.kind === 'permanent') {
+        // Fails the job immediately, skipping the remaining retries
+        throw new UnrecoverableError(err.message);
+      }
+
+      const deferrals = job.data.rateLimitDeferrals || 0;
+      if (classification.kind === 'rate_limited' && deferrals < MAX_RATE_LIMIT_DEFERRALS && token) {
+        const retryAfterMs = classification.retryAfterMs ?? DEFAULT_RATE_LIMIT_DELAY_MS;
+        metadata.retryAfterMs = retryAfterMs;
+        // Logged as a deferral, not a failed attempt, so throttling doesn't skew failure stats
+        status = 'deferred';
+
+        await job.updateData({ ...job.data, rateLimitDeferrals: deferrals + 1 });
+        await job.moveToDelayed(Date.now() + retryAfterMs, token);
+        throw new DelayedError();
+      }
       
       throw err; // This triggers BullMQ to retry
     } finally {
@@ -81,16 +223,21 @@ const worker = new Worker(
       try {
         await prisma.notificationLog.create({
           data: {
+            notificationId,
             userId,
             to,
             channel,
-            message,
+            message: sentMessage,
             subject,
             templateId,
+            templateVersion,
             campaignId,
             status,
             error,
+            errorCode,
             attempt: job.attemptsMade + 1,
+            providerMessageId,
+            providerStatus,
             deliveredAt,
             metadata,
           },
@@ -110,8 +257,24 @@ worker.on('completed', (job) => {
   console.log(`✅ Job ${job.id} completed successfully`);
 });
 
-worker.on('failed', (job, err) => {
+worker.on('failed', async (job, err) => {
   console.error(`❌ Job ${job?.id} failed:`, err.message);
+
+  // finishedOn is only set once BullMQ gives up on the job (no retries left)
+  if (job && job.finishedOn) {
+    if (job.data.notificationId) {
+      await markFailed(job.data.notificationId, err.message).catch((error) => {
+        console.error(`Failed to mark notification ${job.data.notificationId} as failed:`, error);
+      });
+    }
+
+    try {
+      const entry = await moveToDeadLetter(job, err);
+      console.warn(`☠️ Job ${job.id} moved to dead-letter store as entry ${entry.id}`);
+    } catch (error) {
+      console.error(`Failed to dead-letter job ${job.id}:`, error);
+    }
+  }
 });
 
 worker.on('stalled', (jobId) => {